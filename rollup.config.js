@@ -23,7 +23,8 @@ export default {
     'node:stream',
     'node:util',
     'node:buffer',
-    'node:process'
+    'node:process',
+    'node:async_hooks'
   ],
   plugins: [
     resolve({
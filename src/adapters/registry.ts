@@ -38,10 +38,10 @@ export class AdapterRegistry {
   }
   
   /**
-   * Get or create an Optimizely adapter
+   * Get or create an Optimizely adapter (one per environment profile)
    */
   getOptimizelyAdapter(config: CMAConfig): OptimizelyAdapter {
-    const key = 'optimizely';
+    const key = config.environment ? `optimizely:${config.environment.toLowerCase()}` : 'optimizely';
     let adapter = this.adapters.get(key) as OptimizelyAdapter;
     
     if (!adapter) {
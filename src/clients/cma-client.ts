@@ -1,7 +1,13 @@
 import { CMAConfig } from '../types/config.js';
-import { AuthenticationError, APIError, TimeoutError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { AuthenticationError, APIError, TimeoutError, NotFoundError, ValidationError, RateLimitError, CircuitOpenError } from '../utils/errors.js';
 import { withRetry } from '../utils/errors.js';
 import { getLogger, logAPIRequest, logAPIResponse } from '../utils/logger.js';
+import { correlationHeaders, getRequestContext } from '../utils/request-context.js';
+import { getRateLimiter, isQuotaExhausted, retryAfterSeconds } from '../utils/rate-limiter.js';
+import { getCircuitBreaker } from '../utils/circuit-breaker.js';
+import { recordRetry, traceApiRequest } from '../utils/telemetry.js';
+import { getAuditLog } from '../services/audit-log.js';
+import { GRAPH_SYNC_HOLD_SECONDS, invalidateCache, isEmptyTargets, type InvalidationTargets } from '../services/cache-invalidation.js';
 
 interface TokenResponse {
   access_token: string;
@@ -16,6 +22,14 @@ interface APIResponse<T> {
   headers: Headers;
 }
 
+// A request as it would be sent, with the access token redacted
+export interface RequestPreview {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
 export class OptimizelyContentClient {
   private baseUrl: string;
   private clientId: string;
@@ -25,6 +39,7 @@ export class OptimizelyContentClient {
   private impersonateUser?: string;
   private timeout: number;
   private maxRetries: number;
+  private environment?: string;
   private logger = getLogger();
   
   private accessToken: string | null = null;
@@ -39,6 +54,7 @@ export class OptimizelyContentClient {
     this.impersonateUser = config.impersonateUser;
     this.timeout = config.timeout || 30000;
     this.maxRetries = config.maxRetries || 3;
+    this.environment = config.environment;
   }
 
   private async ensureAuthenticated(): Promise<void> {
@@ -72,11 +88,18 @@ export class OptimizelyContentClient {
             grant_type: this.grantType
           });
 
-      const response = await fetch(this.tokenEndpoint, {
-        method: 'POST',
-        headers,
-        body,
-        signal: AbortSignal.timeout(this.timeout)
+      // A token endpoint that is down fails every tool call; stop waiting on it
+      const response = await getCircuitBreaker('cma-token', this.tokenEndpoint).execute(async () => {
+        const tokenResponse = await fetch(this.tokenEndpoint, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.timeout)
+        });
+        if (tokenResponse.status >= 500) {
+          throw new APIError(`Token endpoint unavailable: ${tokenResponse.statusText}`, tokenResponse.status);
+        }
+        return tokenResponse;
       });
 
       if (!response.ok) {
@@ -99,7 +122,7 @@ export class OptimizelyContentClient {
         expiresIn: token.expires_in
       });
     } catch (error) {
-      if (error instanceof AuthenticationError) {
+      if (error instanceof AuthenticationError || error instanceof CircuitOpenError) {
         throw error;
       }
       throw new AuthenticationError(`Failed to authenticate: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -110,35 +133,136 @@ export class OptimizelyContentClient {
     path: string,
     options: RequestInit = {}
   ): Promise<APIResponse<T>> {
+    const method = (options.method || 'GET').toUpperCase();
+    if (method === 'GET') {
+      return this.send<T>(path, options);
+    }
+
+    const response = getAuditLog().enabled
+      ? await this.auditedRequest<T>(path, options, method)
+      : await this.send<T>(path, options);
+    this.invalidateCachedContent(path, options, response.data);
+    return response;
+  }
+
+  // Cached Graph results that include written content are stale from now on
+  private invalidateCachedContent(path: string, options: RequestInit, data: unknown): void {
+    const targets = writeTargets(path, options, data);
+    if (isEmptyTargets(targets)) {
+      return;
+    }
+    try {
+      invalidateCache(targets, this.environment ? [this.environment] : undefined, {
+        holdSeconds: GRAPH_SYNC_HOLD_SECONDS
+      });
+    } catch (error) {
+      // The write succeeded; a stale cache is not worth failing it
+      this.logger.warn(`Cache invalidation after ${options.method} ${path} failed`, error);
+    }
+  }
+
+  // Send a write and record it, with the state of the target before the write, in the audit log
+  private async auditedRequest<T>(
+    path: string,
+    options: RequestInit,
+    method: string
+  ): Promise<APIResponse<T>> {
+    const context = getRequestContext();
+    const contentKey = extractContentKey(path);
+    const before = contentKey ? await this.captureSnapshot(path, method, contentKey) : undefined;
+    const entry = {
+      operationId: context?.operationId,
+      tool: context?.toolName,
+      arguments: context?.arguments,
+      // The environment written to, not the tool call's: content-promote-tree writes to another one
+      environment: this.environment ?? context?.environment,
+      impersonateUser: this.impersonateUser,
+      method,
+      path,
+      requestBody: this.describeRequest(path, options).body,
+      before
+    };
+    const start = Date.now();
+
+    try {
+      const response = await this.send<T>(path, options);
+      const createdKey = (response.data as any)?.key;
+      await getAuditLog().record({
+        ...entry,
+        contentKeys: collectKeys(contentKey, typeof createdKey === 'string' ? createdKey : undefined),
+        after: response.data,
+        outcome: 'success',
+        status: response.status,
+        durationMs: Date.now() - start
+      });
+      return response;
+    } catch (error) {
+      await getAuditLog().record({
+        ...entry,
+        contentKeys: collectKeys(contentKey),
+        outcome: 'failure',
+        status: (error as any)?.statusCode,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - start
+      });
+      throw error;
+    }
+  }
+
+  // Current state of the resource a write is about to change
+  private async captureSnapshot(path: string, method: string, contentKey: string): Promise<unknown> {
+    // POSTs create something new (versions, copies); the item itself is the useful "before"
+    const snapshotPath = method === 'POST' ? `/experimental/content/${contentKey}` : path;
+    try {
+      return (await this.send(snapshotPath, { method: 'GET' })).data;
+    } catch (error) {
+      this.logger.debug(`Could not capture audit snapshot for ${snapshotPath}`, error);
+      return undefined;
+    }
+  }
+
+  private async send<T>(path: string, options: RequestInit): Promise<APIResponse<T>> {
     await this.ensureAuthenticated();
     
     const url = `${this.baseUrl}${path}`;
     const method = options.method || 'GET';
-    
+
     // Log request
     logAPIRequest(method, url, {
       headers: options.headers as Record<string, string>,
       body: options.body
     });
     
+    // Shared with every client for the same CMA host
+    const limiter = getRateLimiter('cma', this.baseUrl);
+    const breaker = getCircuitBreaker('cma', this.baseUrl);
+
     const executeRequest = async (): Promise<APIResponse<T>> => {
       const start = Date.now();
       
       try {
-        const response = await fetch(url, {
+        const response = await limiter.run(() => fetch(url, {
           ...options,
           headers: {
-            'Authorization': `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-            ...options.headers
+            ...this.buildHeaders(`Bearer ${this.accessToken}`, options.headers, options.body),
+            ...correlationHeaders()
           },
           signal: AbortSignal.timeout(this.timeout)
-        });
+        }));
 
         const duration = Date.now() - start;
         logAPIResponse(url, response.status, duration);
 
+        if (response.status === 429) {
+          const retryAfter = retryAfterSeconds(response.headers);
+          limiter.pause(retryAfter ?? 1);
+          throw new RateLimitError(`Rate limit exceeded: ${method} ${path}`, retryAfter);
+        }
+
+        if (isQuotaExhausted(response.headers)) {
+          limiter.pause(retryAfterSeconds(response.headers) ?? 0);
+        }
+
         // Handle specific status codes
         if (response.status === 401) {
           // Token might be expired, clear it and retry
@@ -189,7 +313,52 @@ export class OptimizelyContentClient {
       }
     };
 
-    return await withRetry(executeRequest, { maxRetries: this.maxRetries });
+    return await traceApiRequest('cma', method, {
+      'http.request.method': method,
+      'url.full': url.split('?')[0]
+    }, async span => {
+      const response = await withRetry(() => breaker.execute(executeRequest), {
+        maxRetries: this.maxRetries,
+        onRetry: (error, attempt, delayMs) => recordRetry('cma', error, attempt, delayMs)
+      });
+      span.setAttribute('http.response.status_code', response.status);
+      return response;
+    });
+  }
+
+  private buildHeaders(
+    authorization: string,
+    headers?: RequestInit['headers'],
+    body?: RequestInit['body']
+  ): Record<string, string> {
+    return {
+      'Authorization': authorization,
+      // fetch sets the multipart boundary itself, so only JSON bodies get an explicit type
+      ...(body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      'Accept': 'application/json',
+      ...headers as Record<string, string>
+    };
+  }
+
+  // Describe the request that request() would send, without authenticating or sending it
+  describeRequest(path: string, options: RequestInit = {}): RequestPreview {
+    let body: unknown = options.body ?? undefined;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Not JSON - keep the raw string
+      }
+    } else if (options.body instanceof FormData) {
+      body = describeFormData(options.body);
+    }
+
+    return {
+      method: options.method || 'GET',
+      url: `${this.baseUrl}${path}`,
+      headers: this.buildHeaders('Bearer [REDACTED]', options.headers, options.body),
+      body
+    };
   }
 
   async get<T = any>(path: string, params?: Record<string, any>): Promise<T> {
@@ -208,6 +377,15 @@ export class OptimizelyContentClient {
     return response.data;
   }
 
+  // Send a multipart/form-data request (e.g. media uploads)
+  async upload<T = any>(path: string, form: FormData, method: string = 'POST'): Promise<T> {
+    const response = await this.request<T>(path, {
+      method,
+      body: form
+    });
+    return response.data;
+  }
+
   async put<T = any>(path: string, body: any): Promise<T> {
     const response = await this.request<T>(path, {
       method: 'PUT',
@@ -289,4 +467,58 @@ export class OptimizelyContentClient {
     }
     return this.accessToken;
   }
-}
\ No newline at end of file
+}
+
+const CONTENT_KEY_IN_PATH = /\/content\/([0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12})(?=[/:?]|$)/i;
+
+function extractContentKey(path: string): string | undefined {
+  const match = path.match(CONTENT_KEY_IN_PATH);
+  return match ? match[1].replace(/-/g, '').toLowerCase() : undefined;
+}
+
+// Content a write touched: the item, a created item, and the parents it was written under
+function writeTargets(path: string, options: RequestInit, data: any): InvalidationTargets {
+  let body: any;
+  if (typeof options.body === 'string') {
+    try {
+      body = JSON.parse(options.body);
+    } catch {
+      body = undefined;
+    }
+  }
+
+  const contentType = path.match(/\/contenttypes\/([^/?:]+)/i)?.[1];
+  const containers = [body?.container, data?.container]
+    .filter((container): container is string => typeof container === 'string' && container.length > 0);
+  return {
+    keys: collectKeys(extractContentKey(path), typeof data?.key === 'string' ? data.key : undefined),
+    types: contentType ? [decodeURIComponent(contentType)] : [],
+    paths: [],
+    containers: collectKeys(...containers),
+    all: false
+  };
+}
+
+function collectKeys(...keys: (string | undefined)[]): string[] {
+  const normalized = keys
+    .filter((key): key is string => !!key)
+    .map(key => key.replace(/-/g, '').toLowerCase());
+  return Array.from(new Set(normalized));
+}
+
+// Multipart parts without file contents, for previews and the audit log
+function describeFormData(form: FormData): Record<string, unknown> {
+  const parts: Record<string, unknown> = {};
+  form.forEach((value, name) => {
+    if (typeof value === 'string') {
+      try {
+        parts[name] = JSON.parse(value);
+      } catch {
+        parts[name] = value;
+      }
+    } else {
+      parts[name] = { fileName: value.name, type: value.type, size: value.size };
+    }
+  });
+  return { multipart: parts };
+}
@@ -2,11 +2,16 @@ import { GraphQLClient } from 'graphql-request';
 import { getIntrospectionQuery, IntrospectionQuery } from 'graphql';
 import { GraphConfig, AuthConfig } from '../types/config.js';
 import { generateHMACHeaders } from './auth/hmac.js';
-import { AuthenticationError, APIError, TimeoutError } from '../utils/errors.js';
+import { AuthenticationError, APIError, CircuitOpenError, RateLimitError, TimeoutError } from '../utils/errors.js';
 import { withRetry } from '../utils/errors.js';
 import { getLogger, logAPIRequest, logAPIResponse } from '../utils/logger.js';
 import { withCache } from '../utils/cache.js';
+import { contentTags, GRAPH_TAG } from '../services/cache-invalidation.js';
 import { handleGraphQLError } from '../utils/graphql-error-handler.js';
+import { getRateLimiter, isQuotaExhausted, retryAfterSeconds } from '../utils/rate-limiter.js';
+import { getCircuitBreaker } from '../utils/circuit-breaker.js';
+import { correlationHeaders } from '../utils/request-context.js';
+import { recordRetry, traceApiRequest } from '../utils/telemetry.js';
 
 export class OptimizelyGraphClient {
   private endpoint: string;
@@ -15,9 +20,13 @@ export class OptimizelyGraphClient {
   private logger = getLogger();
   private timeout: number;
   private maxRetries: number;
+  private environment?: string;
+  private staleWhileRevalidate?: number;
 
   constructor(config: GraphConfig) {
     this.endpoint = config.endpoint;
+    this.environment = config.environment;
+    this.staleWhileRevalidate = config.staleWhileRevalidate;
     this.auth = config.auth;
     this.timeout = config.timeout || 30000;
     this.maxRetries = config.maxRetries || 3;
@@ -37,8 +46,14 @@ export class OptimizelyGraphClient {
   private createFetch() {
     const originalFetch = fetch;
     
-    return async (url: string | URL | Request, init?: RequestInit) => {
+    const send = async (url: string | URL | Request, init?: RequestInit) => {
       const start = Date.now();
+      // Tag the request with the tool call it belongs to
+      const headers = new Headers(init?.headers);
+      for (const [name, value] of Object.entries(correlationHeaders())) {
+        headers.set(name, value);
+      }
+      init = { ...init, headers };
       const method = init?.method || 'GET';
       const urlString = typeof url === 'string' ? url : url instanceof URL ? url.toString() : url.url;
       
@@ -48,10 +63,22 @@ export class OptimizelyGraphClient {
       });
       
       try {
-        const response = await originalFetch(url, init);
+        // Shared with every client for the same Graph host
+        const limiter = getRateLimiter('graph', this.endpoint);
+        const response = await limiter.run(() => originalFetch(url, init));
         const duration = Date.now() - start;
         
         logAPIResponse(urlString, response.status, duration);
+
+        if (response.status === 429) {
+          const retryAfter = retryAfterSeconds(response.headers);
+          limiter.pause(retryAfter ?? 1);
+          throw new RateLimitError('GraphQL rate limit exceeded', retryAfter);
+        }
+
+        if (isQuotaExhausted(response.headers)) {
+          limiter.pause(retryAfterSeconds(response.headers) ?? 0);
+        }
         
         if (!response.ok) {
           const errorBody = await response.text();
@@ -73,6 +100,10 @@ export class OptimizelyGraphClient {
         throw error;
       }
     };
+
+    // While Graph is down, fail fast instead of waiting out every timeout
+    return (url: string | URL | Request, init?: RequestInit) =>
+      getCircuitBreaker('graph', this.endpoint).execute(() => send(url, init));
   }
 
   private getAuthHeaders(method: string = 'POST', path: string = '/', body?: string): Record<string, string> {
@@ -136,11 +167,21 @@ export class OptimizelyGraphClient {
     options?: {
       cacheKey?: string;
       cacheTtl?: number;
+      // Extra invalidation tags besides the content found in the result
+      cacheTags?: string[];
       operationName?: string;
     }
   ): Promise<T> {
+    const operationName = options?.operationName
+      ?? (typeof query === 'string' ? query.match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1] : undefined)
+      ?? 'query';
+
+    // Cache hits never reach Graph, so only this part is traced as a request
     const executeQuery = async () => {
-      return await withRetry(
+      return await traceApiRequest('graph', operationName, {
+        'graphql.operation.name': operationName,
+        'url.full': this.endpoint
+      }, () => withRetry(
         async () => {
           this.logger.debug('Executing GraphQL query', {
             operationName: options?.operationName,
@@ -159,20 +200,32 @@ export class OptimizelyGraphClient {
           try {
             return await this.client.request<T>(query, variables);
           } catch (requestError) {
+            // Passed through untouched so withRetry honours Retry-After and open circuits
+            if (requestError instanceof RateLimitError || requestError instanceof CircuitOpenError) {
+              throw requestError;
+            }
             // Handle GraphQL-specific errors with enhanced error messages
             handleGraphQLError(requestError, query, variables);
           }
         },
-        { maxRetries: this.maxRetries }
-      );
+        {
+          maxRetries: this.maxRetries,
+          onRetry: (error, attempt, delayMs) => recordRetry('graph', error, attempt, delayMs)
+        }
+      ));
     };
 
-    // Use cache if cache key is provided
+    // Use cache if cache key is provided; tagged so publish webhooks can invalidate it
     if (options?.cacheKey) {
       return await withCache(
         options.cacheKey,
         executeQuery,
-        options.cacheTtl
+        options.cacheTtl,
+        this.environment,
+        {
+          tags: result => [GRAPH_TAG, ...(options.cacheTags ?? []), ...contentTags(result)],
+          staleWhileRevalidate: this.staleWhileRevalidate
+        }
       );
     }
 
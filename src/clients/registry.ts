@@ -0,0 +1,33 @@
+import type { Config } from '../types/config.js';
+import { getCMAConfig, getGraphConfig } from '../config.js';
+import { OptimizelyContentClient } from './cma-client.js';
+import { OptimizelyGraphClient } from './graph-client.js';
+
+export interface EnvironmentClients {
+  environment: string;
+  graph: OptimizelyGraphClient;
+  cma: OptimizelyContentClient;
+}
+
+// Long-lived client pair per environment profile, so CMA tokens are reused
+const clientInstances = new Map<string, EnvironmentClients>();
+
+export function getEnvironmentClients(config: Config): EnvironmentClients {
+  const environment = config.environment || 'default';
+  let clients = clientInstances.get(environment);
+
+  if (!clients) {
+    clients = {
+      environment,
+      graph: new OptimizelyGraphClient(getGraphConfig(config)),
+      cma: new OptimizelyContentClient(getCMAConfig(config))
+    };
+    clientInstances.set(environment, clients);
+  }
+
+  return clients;
+}
+
+export function clearEnvironmentClients(): void {
+  clientInstances.clear();
+}
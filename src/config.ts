@@ -1,5 +1,7 @@
 import { config as loadEnv } from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
 import { ConfigSchema, type Config, type GraphConfig, type CMAConfig, type AuthConfig } from './types/config.js';
+import { ValidationError } from './utils/errors.js';
 
 // Load environment variables
 loadEnv();
@@ -7,38 +9,150 @@ loadEnv();
 // Re-export Config type
 export type { Config } from './types/config.js';
 
+interface EnvironmentsFile {
+  defaultEnvironment?: string;
+  environments?: Record<string, unknown>;
+}
+
+// Load named environment profiles from a JSON file.
+// String values may reference environment variables as ${VAR_NAME} to keep secrets out of the file.
+export function loadEnvironmentProfiles(filePath?: string): EnvironmentsFile {
+  if (!filePath) {
+    return { environments: {} };
+  }
+
+  if (!existsSync(filePath)) {
+    throw new Error(`Environments file not found: ${filePath}`);
+  }
+
+  let parsed: EnvironmentsFile;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to parse environments file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    defaultEnvironment: parsed.defaultEnvironment,
+    environments: interpolateEnvVars(parsed.environments || {}) as Record<string, unknown>
+  };
+}
+
+function interpolateEnvVars(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_match, name) => process.env[name] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(interpolateEnvVars);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, interpolateEnvVars(entry)])
+    );
+  }
+  return value;
+}
+
+function parseBoolean(value?: string): boolean | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return ['true', '1', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+function parseList(value?: string): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
 export function loadConfig(): Config {
+  const envGraph = {
+    endpoint: process.env.GRAPH_ENDPOINT,
+    authMethod: process.env.GRAPH_AUTH_METHOD,
+    credentials: {
+      singleKey: process.env.GRAPH_SINGLE_KEY,
+      appKey: process.env.GRAPH_APP_KEY,
+      secret: process.env.GRAPH_SECRET,
+      username: process.env.GRAPH_USERNAME,
+      password: process.env.GRAPH_PASSWORD,
+      token: process.env.GRAPH_TOKEN
+    }
+  };
+
+  const envCma = {
+    baseUrl: process.env.CMA_BASE_URL,
+    clientId: process.env.CMA_CLIENT_ID,
+    clientSecret: process.env.CMA_CLIENT_SECRET,
+    grantType: process.env.CMA_GRANT_TYPE,
+    tokenEndpoint: process.env.CMA_TOKEN_ENDPOINT,
+    impersonateUser: process.env.CMA_IMPERSONATE_USER
+  };
+
+  // The GRAPH_*/CMA_* variables form the "default" profile unless the file defines one
+  const profiles = loadEnvironmentProfiles(process.env.ENVIRONMENTS_FILE);
+  const environments: Record<string, any> = { ...profiles.environments };
+  if (!environments.default && (process.env.GRAPH_ENDPOINT || Object.keys(environments).length === 0)) {
+    environments.default = { graph: envGraph, cma: envCma };
+  }
+
+  const environment = process.env.DEFAULT_ENVIRONMENT || profiles.defaultEnvironment || 'default';
+  if (!environments[environment]) {
+    throw new Error(`Default environment "${environment}" is not defined. Available: ${Object.keys(environments).join(', ')}`);
+  }
+
   const rawConfig = {
     server: {
       name: process.env.SERVER_NAME,
       version: process.env.SERVER_VERSION,
-      transport: process.env.TRANSPORT
-    },
-    graph: {
-      endpoint: process.env.GRAPH_ENDPOINT,
-      authMethod: process.env.GRAPH_AUTH_METHOD,
-      credentials: {
-        singleKey: process.env.GRAPH_SINGLE_KEY,
-        appKey: process.env.GRAPH_APP_KEY,
-        secret: process.env.GRAPH_SECRET,
-        username: process.env.GRAPH_USERNAME,
-        password: process.env.GRAPH_PASSWORD,
-        token: process.env.GRAPH_TOKEN
-      }
-    },
-    cma: {
-      baseUrl: process.env.CMA_BASE_URL,
-      clientId: process.env.CMA_CLIENT_ID,
-      clientSecret: process.env.CMA_CLIENT_SECRET,
-      grantType: process.env.CMA_GRANT_TYPE,
-      tokenEndpoint: process.env.CMA_TOKEN_ENDPOINT,
-      impersonateUser: process.env.CMA_IMPERSONATE_USER
+      transport: process.env.TRANSPORT,
+      port: process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : undefined,
+      host: process.env.SERVER_HOST,
+      webhookPath: process.env.WEBHOOK_PATH,
+      webhookSecret: process.env.WEBHOOK_SECRET || undefined,
+      webhookAllowQueryToken: parseBoolean(process.env.WEBHOOK_ALLOW_QUERY_TOKEN)
     },
+    graph: environments[environment].graph,
+    cma: environments[environment].cma,
+    environment,
+    environments,
     options: {
       cacheTtl: process.env.CACHE_TTL ? parseInt(process.env.CACHE_TTL, 10) : undefined,
+      cacheStore: process.env.CACHE_STORE,
+      cacheDir: process.env.CACHE_DIR,
+      cacheMaxBytes: process.env.CACHE_MAX_BYTES ? parseInt(process.env.CACHE_MAX_BYTES, 10) : undefined,
+      cacheEviction: process.env.CACHE_EVICTION,
+      cacheStaleWhileRevalidate: process.env.CACHE_STALE_WHILE_REVALIDATE
+        ? parseInt(process.env.CACHE_STALE_WHILE_REVALIDATE, 10)
+        : undefined,
       maxRetries: process.env.MAX_RETRIES ? parseInt(process.env.MAX_RETRIES, 10) : undefined,
+      cmaRateLimit: process.env.CMA_RATE_LIMIT ? parseFloat(process.env.CMA_RATE_LIMIT) : undefined,
+      cmaMaxConcurrency: process.env.CMA_MAX_CONCURRENCY ? parseInt(process.env.CMA_MAX_CONCURRENCY, 10) : undefined,
+      graphRateLimit: process.env.GRAPH_RATE_LIMIT ? parseFloat(process.env.GRAPH_RATE_LIMIT) : undefined,
+      graphMaxConcurrency: process.env.GRAPH_MAX_CONCURRENCY ? parseInt(process.env.GRAPH_MAX_CONCURRENCY, 10) : undefined,
+      circuitBreakerThreshold: process.env.CIRCUIT_BREAKER_THRESHOLD
+        ? parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD, 10)
+        : undefined,
+      circuitBreakerResetSeconds: process.env.CIRCUIT_BREAKER_RESET
+        ? parseInt(process.env.CIRCUIT_BREAKER_RESET, 10)
+        : undefined,
       timeout: process.env.TIMEOUT ? parseInt(process.env.TIMEOUT, 10) : undefined,
-      logLevel: process.env.LOG_LEVEL
+      logLevel: process.env.LOG_LEVEL,
+      logFormat: process.env.LOG_FORMAT,
+      logFile: process.env.LOG_FILE || undefined,
+      telemetry: parseBoolean(process.env.OTEL_ENABLED),
+      telemetryEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || undefined,
+      telemetryMetricsInterval: process.env.OTEL_METRIC_EXPORT_INTERVAL
+        ? parseInt(process.env.OTEL_METRIC_EXPORT_INTERVAL, 10)
+        : undefined,
+      safeMode: parseBoolean(process.env.SAFE_MODE),
+      toolAllowlist: parseList(process.env.TOOL_ALLOWLIST),
+      toolDenylist: parseList(process.env.TOOL_DENYLIST),
+      auditLog: parseBoolean(process.env.AUDIT_LOG),
+      auditLogFile: process.env.AUDIT_LOG_FILE,
+      uploadRoot: process.env.UPLOAD_ROOT || undefined,
+      exportDir: process.env.EXPORT_DIR || undefined
     }
   };
 
@@ -63,7 +177,9 @@ export function getGraphConfig(config: Config): GraphConfig {
     endpoint: config.graph.endpoint,
     auth,
     timeout: config.options.timeout,
-    maxRetries: config.options.maxRetries
+    maxRetries: config.options.maxRetries,
+    environment: config.environment,
+    staleWhileRevalidate: config.options.cacheStaleWhileRevalidate
   };
 }
 
@@ -76,7 +192,37 @@ export function getCMAConfig(config: Config): CMAConfig {
     tokenEndpoint: config.cma.tokenEndpoint || 'https://api.cms.optimizely.com/oauth/token',
     impersonateUser: config.cma.impersonateUser,
     timeout: config.options.timeout,
-    maxRetries: config.options.maxRetries
+    maxRetries: config.options.maxRetries,
+    environment: config.environment,
+    uploadRoot: config.options.uploadRoot
+  };
+}
+
+export function getEnvironmentNames(config: Config): string[] {
+  const names = Object.keys(config.environments || {});
+  return names.length > 0 ? names : [config.environment || 'default'];
+}
+
+// Resolve the configuration for a named environment profile.
+// Returns the config unchanged when no name is given or it is already the active one.
+export function resolveEnvironment(config: Config, name?: string): Config {
+  const active = config.environment || 'default';
+  if (!name || name === active) {
+    return config;
+  }
+
+  const profile = config.environments?.[name];
+  if (!profile) {
+    throw new ValidationError(
+      `Unknown environment: ${name}. Available environments: ${getEnvironmentNames(config).join(', ')}`
+    );
+  }
+
+  return {
+    ...config,
+    graph: profile.graph,
+    cma: profile.cma,
+    environment: name
   };
 }
 
@@ -0,0 +1,473 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { CMAConfig } from '../../types/config.js';
+import { handleError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput, sanitizeInput, resolvePathWithin } from '../../utils/validation.js';
+import { createDryRunResult } from '../content/dry-run.js';
+import { collectContentReferences, normalizeContentKey } from '../content/references.js';
+import { fetchContentSnapshot, listContentChildren, walkContentTree } from '../content/tree.js';
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.avif': 'image/avif',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const UploadAssetSchema = z.object({
+  filePath: z.string().optional(),
+  base64: z.string().optional(),
+  fileName: z.string().optional(),
+  container: z.string().min(1),
+  contentType: z.string().optional(),
+  displayName: z.string().optional(),
+  altText: z.string().optional(),
+  description: z.string().optional(),
+  properties: z.record(z.any()).optional(),
+  locale: z.string().optional(),
+  dryRun: z.boolean().optional().default(false)
+}).refine(params => !!params.filePath !== !!params.base64, {
+  message: 'Provide either filePath or base64'
+}).refine(params => !params.base64 || !!params.fileName, {
+  message: 'fileName is required when uploading base64 data'
+});
+
+const UpdateAssetMetadataSchema = z.object({
+  assetKey: z.string().min(1),
+  altText: z.string().optional(),
+  description: z.string().optional(),
+  displayName: z.string().optional(),
+  properties: z.record(z.any()).optional(),
+  locale: z.string().optional(),
+  dryRun: z.boolean().optional().default(false)
+});
+
+const ListAssetsSchema = z.object({
+  folderKey: z.string().min(1),
+  includeFolders: z.boolean().optional().default(true),
+  limit: z.number().int().min(1).max(1000).optional().default(100)
+});
+
+const FindUnusedAssetsSchema = z.object({
+  folderKey: z.string().min(1),
+  scanRootKeys: z.array(z.string().min(1)).min(1),
+  maxDepth: z.number().int().min(0).max(20).optional().default(10),
+  maxItems: z.number().int().min(1).max(2000).optional().default(500)
+});
+
+type AssetKind = 'image' | 'video' | 'media' | 'folder' | 'other';
+
+function kindFromBaseType(baseType?: string): AssetKind {
+  switch ((baseType || '').toLowerCase().replace(/^_/, '')) {
+    case 'image':
+      return 'image';
+    case 'video':
+      return 'video';
+    case 'media':
+      return 'media';
+    case 'folder':
+      return 'folder';
+    default:
+      return 'other';
+  }
+}
+
+function isMediaKind(kind: AssetKind): boolean {
+  return kind === 'image' || kind === 'video' || kind === 'media';
+}
+
+function firstContentType(contentType: unknown): string {
+  return Array.isArray(contentType) ? String(contentType[0] ?? '') : String(contentType ?? '');
+}
+
+async function getContentTypeDefinitions(client: OptimizelyContentClient): Promise<any[]> {
+  const response = await client.get<any>('/contentTypes');
+  return response.items || [];
+}
+
+async function getBaseTypeMap(client: OptimizelyContentClient): Promise<Map<string, string>> {
+  const types = await getContentTypeDefinitions(client);
+  return new Map(types.map(type => [type.key, type.baseType]));
+}
+
+/**
+ * Pick the media content type for a MIME type from the types defined in the CMS,
+ * preferring image/video types over generic media.
+ */
+function resolveMediaType(types: any[], mimeType: string): any | undefined {
+  const preferred = mimeType.startsWith('image/') ? ['image', 'media']
+    : mimeType.startsWith('video/') ? ['video', 'media']
+      : ['media'];
+
+  for (const kind of preferred) {
+    const match = types.find(type => kindFromBaseType(type.baseType) === kind);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map altText/description onto whatever the media type calls those properties
+ */
+function mapMetadataProperties(
+  typeDefinition: any,
+  metadata: { altText?: string; description?: string }
+): { properties: Record<string, any>; warnings: string[] } {
+  const propertyNames = Object.keys(typeDefinition?.properties || {});
+  const properties: Record<string, any> = {};
+  const warnings: string[] = [];
+
+  const assign = (value: string | undefined, label: string, pattern: RegExp) => {
+    if (value === undefined) return;
+    const name = propertyNames.find(property => pattern.test(property));
+    if (name) {
+      properties[name] = value;
+    } else {
+      warnings.push(`Content type ${typeDefinition?.key} has no ${label} property; ${label} was not set`);
+    }
+  };
+
+  assign(metadata.altText, 'alt text', /^alt(ernative)?_?text$|^alt$/i);
+  assign(metadata.description, 'description', /description/i);
+
+  return { properties, warnings };
+}
+
+async function readUploadSource(params: {
+  filePath?: string;
+  base64?: string;
+  fileName?: string;
+}, uploadRoot?: string): Promise<{ bytes: Buffer; fileName: string; mimeType: string }> {
+  if (params.filePath) {
+    // Over HTTP any client could otherwise upload server files (.env, keys) and download them again
+    if (!uploadRoot) {
+      throw new ValidationError('Uploading from filePath is disabled; set UPLOAD_ROOT or send base64 data');
+    }
+    const filePath = await resolvePathWithin(uploadRoot, params.filePath, 'filePath');
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      throw new ValidationError(`File not found: ${params.filePath}`);
+    }
+    if (stat.size > MAX_UPLOAD_BYTES) {
+      throw new ValidationError(`File is larger than the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB upload limit`);
+    }
+    const fileName = params.fileName || path.basename(filePath);
+    return {
+      bytes: await fs.readFile(filePath),
+      fileName,
+      mimeType: MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream'
+    };
+  }
+
+  // Accept plain base64 or a data: URI, which also carries the MIME type
+  const dataUri = params.base64!.match(/^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s);
+  const bytes = Buffer.from(dataUri ? dataUri[2] : params.base64!, 'base64');
+  if (bytes.length === 0) {
+    throw new ValidationError('base64 data is empty or invalid');
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    throw new ValidationError(`File is larger than the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB upload limit`);
+  }
+  const fileName = params.fileName!;
+  return {
+    bytes,
+    fileName,
+    mimeType: dataUri?.[1] || MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream'
+  };
+}
+
+export async function executeAssetUpload(
+  config: CMAConfig,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(UploadAssetSchema, params);
+    const client = new OptimizelyContentClient(config);
+    const logger = getLogger();
+
+    const { bytes, fileName, mimeType } = await readUploadSource(validatedParams, config.uploadRoot);
+
+    // Resolve the media type from the CMS instead of assuming type names
+    const types = await getContentTypeDefinitions(client);
+    const typeDefinition = validatedParams.contentType
+      ? types.find(type => type.key === validatedParams.contentType)
+      : resolveMediaType(types, mimeType);
+    if (!typeDefinition) {
+      const mediaTypes = types.filter(type => isMediaKind(kindFromBaseType(type.baseType))).map(type => type.key);
+      throw new ValidationError(
+        validatedParams.contentType
+          ? `Content type ${validatedParams.contentType} does not exist`
+          : `No media content type found for ${mimeType}. Available media types: ${mediaTypes.join(', ') || 'none'}`
+      );
+    }
+
+    try {
+      await client.get(`/experimental/content/${validatedParams.container}`);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new ValidationError(`Container ${validatedParams.container} does not exist. Use asset-list to browse media folders.`);
+      }
+      throw error;
+    }
+
+    const metadata = mapMetadataProperties(typeDefinition, validatedParams);
+    const content: Record<string, any> = {
+      contentType: typeDefinition.key,
+      container: validatedParams.container,
+      displayName: validatedParams.displayName || fileName,
+      properties: {
+        ...sanitizeInput(validatedParams.properties || {}),
+        ...metadata.properties
+      }
+    };
+    if (validatedParams.locale) {
+      content.locale = validatedParams.locale;
+    }
+
+    const form = new FormData();
+    form.append('content', JSON.stringify(content));
+    form.append('file', new Blob([bytes], { type: mimeType }), fileName);
+
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        client.describeRequest('/experimental/content', { method: 'POST', body: form }),
+        { warnings: metadata.warnings }
+      );
+    }
+
+    logger.info('Uploading asset', { fileName, mimeType, size: bytes.length, contentType: typeDefinition.key });
+    const result = await client.upload<any>('/experimental/content', form);
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: true,
+          asset: {
+            key: result?.key,
+            contentType: typeDefinition.key,
+            displayName: content.displayName,
+            container: validatedParams.container,
+            fileName,
+            mimeType,
+            fileSize: bytes.length
+          },
+          warnings: metadata.warnings.length > 0 ? metadata.warnings : undefined,
+          message: `Uploaded ${fileName} as ${typeDefinition.key}`
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function executeAssetUpdateMetadata(
+  config: CMAConfig,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(UpdateAssetMetadataSchema, params);
+    const client = new OptimizelyContentClient(config);
+
+    const asset = await client.get<any>(`/experimental/content/${validatedParams.assetKey}`);
+    const contentTypeKey = firstContentType(asset.contentType);
+    const typeDefinition = await client.get<any>(`/contentTypes/${contentTypeKey}`);
+
+    const metadata = mapMetadataProperties(typeDefinition, validatedParams);
+    const properties = {
+      ...sanitizeInput(validatedParams.properties || {}),
+      ...metadata.properties
+    };
+    if (Object.keys(properties).length === 0 && !validatedParams.displayName) {
+      throw new ValidationError('Nothing to update. Provide altText, description, displayName or properties.', {
+        warnings: metadata.warnings
+      });
+    }
+
+    // Media is often not localized, so only pass a locale when one was given
+    const localeQuery = validatedParams.locale ? { locale: validatedParams.locale } : undefined;
+    const versions = await client.get<any>(`/experimental/content/${validatedParams.assetKey}/versions`, localeQuery);
+    const latest = versions?.items?.[0];
+    if (!latest) {
+      throw new NotFoundError(`No versions found for asset ${validatedParams.assetKey}`);
+    }
+
+    const endpoint = `/experimental/content/${validatedParams.assetKey}/versions/${latest.version}` +
+      (validatedParams.locale ? `?locale=${encodeURIComponent(validatedParams.locale)}` : '');
+    const patchData: Record<string, any> = { properties };
+    if (validatedParams.displayName) {
+      patchData.displayName = validatedParams.displayName;
+    }
+    const requestOptions: RequestInit = {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/merge-patch+json'
+      },
+      body: JSON.stringify(patchData)
+    };
+
+    if (validatedParams.dryRun) {
+      return createDryRunResult(client.describeRequest(endpoint, requestOptions), { warnings: metadata.warnings });
+    }
+
+    const result = await client.request<any>(endpoint, requestOptions);
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: true,
+          asset: result.data,
+          updatedProperties: Object.keys(properties),
+          warnings: metadata.warnings.length > 0 ? metadata.warnings : undefined,
+          message: `Asset ${validatedParams.assetKey} updated`
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function executeAssetList(
+  config: CMAConfig,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(ListAssetsSchema, params);
+    const client = new OptimizelyContentClient(config);
+
+    const [children, baseTypes] = await Promise.all([
+      listContentChildren(client, validatedParams.folderKey),
+      getBaseTypeMap(client)
+    ]);
+
+    const limit = validatedParams.limit ?? 100;
+    const items = children
+      .map(child => {
+        const contentType = firstContentType(child.contentType);
+        return {
+          key: child.key,
+          displayName: child.displayName,
+          contentType,
+          kind: kindFromBaseType(baseTypes.get(contentType)),
+          locales: Object.keys(child.locales || {})
+        };
+      })
+      .filter(item => isMediaKind(item.kind) || (validatedParams.includeFolders && item.kind === 'folder'));
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          folderKey: validatedParams.folderKey,
+          total: items.length,
+          folders: items.filter(item => item.kind === 'folder').length,
+          assets: items.filter(item => item.kind !== 'folder').length,
+          items: items.slice(0, limit),
+          truncated: items.length > limit
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function executeAssetFindUnused(
+  config: CMAConfig,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(FindUnusedAssetsSchema, params);
+    const client = new OptimizelyContentClient(config);
+    const logger = getLogger();
+    const baseTypes = await getBaseTypeMap(client);
+
+    // 1. Every media item below the folder
+    const folderTree = await walkContentTree(client, validatedParams.folderKey, {
+      maxDepth: validatedParams.maxDepth,
+      maxItems: validatedParams.maxItems
+    });
+    const assets = folderTree.nodes
+      .map(node => ({ node, contentType: firstContentType(node.metadata.contentType) }))
+      .filter(({ contentType }) => isMediaKind(kindFromBaseType(baseTypes.get(contentType))));
+
+    // 2. Every content key referenced from the scanned content
+    const referenced = new Set<string>();
+    let scanned = 0;
+    let scanTruncated = false;
+    for (const rootKey of validatedParams.scanRootKeys) {
+      const tree = await walkContentTree(client, rootKey, {
+        maxDepth: validatedParams.maxDepth,
+        maxItems: validatedParams.maxItems
+      });
+      scanTruncated = scanTruncated || tree.truncated;
+      for (const node of tree.nodes) {
+        const snapshot = await fetchContentSnapshot(client, node.key);
+        if (snapshot) {
+          collectContentReferences(snapshot.locales, referenced);
+          scanned++;
+        }
+      }
+    }
+
+    logger.info(`Checked ${assets.length} asset(s) against ${scanned} content item(s)`);
+
+    const unreferenced = assets
+      .filter(({ node }) => !referenced.has(normalizeContentKey(node.key)))
+      .map(({ node, contentType }) => ({
+        key: node.key,
+        displayName: node.metadata.displayName,
+        contentType,
+        folder: node.parentKey
+      }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          folderKey: validatedParams.folderKey,
+          scanRootKeys: validatedParams.scanRootKeys,
+          assetsChecked: assets.length,
+          contentScanned: scanned,
+          // Content the scan did not reach may still use these assets, so none of them is called unused
+          unusedCount: scanTruncated ? 0 : unreferenced.length,
+          unused: scanTruncated ? [] : unreferenced,
+          ...(scanTruncated ? { unverifiedCount: unreferenced.length, unverified: unreferenced } : {}),
+          truncated: folderTree.truncated || scanTruncated,
+          note: scanTruncated
+            ? 'The content scan stopped at maxItems/maxDepth, so unreferenced assets are listed as unverified rather than unused. ' +
+              'Raise the limits or narrow scanRootKeys to get a verdict.'
+            : 'Assets are matched by content key (content references, content areas and cms://content links). ' +
+              'Assets linked only by URL, or from content outside the scanned roots, are reported as unused.'
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
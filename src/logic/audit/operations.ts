@@ -0,0 +1,66 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getAuditLog, type AuditEntry } from '../../services/audit-log.js';
+import { handleError } from '../../utils/errors.js';
+import { validateInput } from '../../utils/validation.js';
+
+const AuditQuerySchema = z.object({
+  tool: z.string().optional(),
+  contentKey: z.string().optional(),
+  operationId: z.string().optional(),
+  environment: z.string().optional(),
+  outcome: z.enum(['success', 'failure']).optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  limit: z.number().int().min(1).max(500).optional().default(20),
+  includeSnapshots: z.boolean().optional().default(false)
+});
+
+function summarizeEntry(entry: AuditEntry, includeSnapshots: boolean): Partial<AuditEntry> {
+  if (includeSnapshots) {
+    return entry;
+  }
+  const summary: Partial<AuditEntry> = { ...entry };
+  delete summary.before;
+  delete summary.after;
+  delete summary.requestBody;
+  return summary;
+}
+
+export async function executeAuditQuery(params: any): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(AuditQuerySchema, params);
+    const auditLog = getAuditLog();
+
+    if (!auditLog.enabled) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            enabled: false,
+            entries: [],
+            message: 'The audit log is disabled. Set AUDIT_LOG=true to record writes.'
+          }, null, 2)
+        }]
+      };
+    }
+
+    const { includeSnapshots, ...filter } = validatedParams;
+    const entries = await auditLog.query(filter);
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          enabled: true,
+          count: entries.length,
+          filter,
+          entries: entries.map(entry => summarizeEntry(entry, includeSnapshots === true)),
+          tip: includeSnapshots ? undefined : 'Pass includeSnapshots: true to see request bodies and before/after state'
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,425 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { OptimizelyGraphClient } from '../../clients/graph-client.js';
+import { getCMAConfig, getGraphConfig, type Config } from '../../config.js';
+import type { ProgressReporter } from '../../types/tools.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { handleError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput, sanitizeInput, toGraphLocale } from '../../utils/validation.js';
+
+const GRAPH_PAGE_SIZE = 100;
+// The continuation token carries every remaining key, so a run is capped to keep it small
+const MAX_RUN_ITEMS = 1000;
+// A token left unused this long is refused, so a leaked one cannot re-apply the change later
+const CONTINUATION_TTL_MS = 60 * 60 * 1000;
+
+const BulkTargetSchema = z.object({
+  where: z.record(z.any()).optional(),
+  contentTypes: z.array(z.string()).optional(),
+  keys: z.array(z.string()).optional(),
+  locale: z.string().optional(),
+  maxItems: z.number().int().min(1).max(MAX_RUN_ITEMS).optional().default(500),
+  batchSize: z.number().int().min(1).max(500).optional().default(50),
+  concurrency: z.number().int().min(1).max(10).optional().default(4),
+  continuationToken: z.string().optional(),
+  dryRun: z.boolean().optional().default(false)
+});
+
+const BulkUpdateSchema = BulkTargetSchema.extend({
+  properties: z.record(z.any()).optional(),
+  displayName: z.string().optional()
+});
+
+type BulkTool = 'content-bulk-update' | 'content-bulk-publish';
+
+interface BulkItem {
+  key: string;
+  locale?: string;
+  displayName?: string;
+}
+
+interface BulkItemResult {
+  key: string;
+  locale?: string;
+  status: 'updated' | 'published' | 'skipped' | 'failed';
+  version?: string;
+  reason?: string;
+  error?: string;
+}
+
+// Everything needed to resume a run. The token is this state, base64url
+// encoded, and an HMAC keyed with the environment's CMA client secret.
+interface ContinuationState {
+  tool: BulkTool;
+  environment: string;
+  operation: Record<string, unknown>;
+  remaining: [string, string | null][];
+  processed: number;
+  failed: number;
+  total: number;
+  // Epoch milliseconds, set when the token is issued; every batch gets a fresh expiry
+  expiresAt?: number;
+}
+
+function signContinuation(config: Config, payload: string): Buffer {
+  return createHmac('sha256', config.cma.clientSecret).update(payload).digest();
+}
+
+function encodeContinuation(config: Config, state: ContinuationState): string {
+  const payload = Buffer.from(JSON.stringify({ ...state, expiresAt: Date.now() + CONTINUATION_TTL_MS }), 'utf-8')
+    .toString('base64url');
+  return `${payload}.${signContinuation(config, payload).toString('base64url')}`;
+}
+
+function decodeContinuation(config: Config, token: string, tool: BulkTool): ContinuationState {
+  const [payload, signature = ''] = token.split('.');
+  const expected = signContinuation(config, payload);
+  const actual = Buffer.from(signature, 'base64url');
+  // A token edited by hand or issued with other credentials could target any content
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new ValidationError('Invalid continuation token');
+  }
+
+  let state: ContinuationState;
+  try {
+    state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    throw new ValidationError('Invalid continuation token');
+  }
+  if (state?.tool !== tool || !Array.isArray(state.remaining)) {
+    throw new ValidationError(`The continuation token does not belong to ${tool}`);
+  }
+  if (!state.expiresAt || state.expiresAt <= Date.now()) {
+    throw new ValidationError('The continuation token has expired. Start the run again without it.');
+  }
+  const environment = config.environment || 'default';
+  if (state.environment !== environment) {
+    throw new ValidationError(
+      `The continuation token was issued for environment ${state.environment}, not ${environment}`
+    );
+  }
+  return state;
+}
+
+/**
+ * Resolve the content a bulk run applies to: explicit keys, or every item
+ * matching a Graph filter (capped at maxItems).
+ */
+async function resolveTargets(
+  config: Config,
+  params: { where?: Record<string, any>; contentTypes?: string[]; keys?: string[]; locale?: string; maxItems: number }
+): Promise<{ items: BulkItem[]; truncated: boolean }> {
+  if (params.keys && params.keys.length > 0) {
+    if (!params.locale) {
+      throw new ValidationError('locale is required when targeting explicit keys');
+    }
+    return {
+      items: params.keys.slice(0, params.maxItems).map(key => ({ key, locale: params.locale })),
+      truncated: params.keys.length > params.maxItems
+    };
+  }
+
+  if (!params.where && !params.contentTypes?.length) {
+    throw new ValidationError('Provide keys, a where filter or contentTypes. Bulk operations never target all content.');
+  }
+
+  const conditions: Record<string, any>[] = [];
+  if (params.where) {
+    conditions.push(params.where);
+  }
+  if (params.contentTypes?.length) {
+    conditions.push({ _metadata: { types: { in: params.contentTypes } } });
+  }
+  const where = conditions.length === 1 ? conditions[0] : { _and: conditions };
+  const localeArgument = params.locale ? `locale: [${toGraphLocale(params.locale)}]` : '';
+
+  const query = `
+    query BulkTargets($where: _ContentWhereInput, $limit: Int!, $skip: Int!) {
+      _Content(where: $where, limit: $limit, skip: $skip ${localeArgument}) {
+        total
+        items {
+          _metadata {
+            key
+            locale
+            displayName
+          }
+        }
+      }
+    }
+  `;
+
+  const client = new OptimizelyGraphClient(getGraphConfig(config));
+  const items: BulkItem[] = [];
+  const seen = new Set<string>();
+  let total = 0;
+
+  for (let skip = 0; skip < params.maxItems; skip += GRAPH_PAGE_SIZE) {
+    const result = await client.query<any>(query, {
+      where,
+      limit: Math.min(GRAPH_PAGE_SIZE, params.maxItems - skip),
+      skip
+    }, { operationName: 'BulkTargets' });
+
+    const page = result?._Content;
+    total = page?.total ?? 0;
+    for (const item of page?.items || []) {
+      const metadata = item?._metadata;
+      const id = `${metadata?.key}:${metadata?.locale}`;
+      if (metadata?.key && !seen.has(id)) {
+        seen.add(id);
+        items.push({ key: metadata.key, locale: metadata.locale, displayName: metadata.displayName });
+      }
+    }
+
+    if (!page?.items?.length || skip + GRAPH_PAGE_SIZE >= total) {
+      break;
+    }
+  }
+
+  return { items, truncated: total > params.maxItems };
+}
+
+async function getLatestVersion(client: OptimizelyContentClient, item: BulkItem): Promise<any | undefined> {
+  const versions = await client.get<any>(
+    `/experimental/content/${item.key}/versions`,
+    item.locale ? { locale: item.locale } : undefined
+  );
+  return versions?.items?.[0];
+}
+
+function versionEndpoint(item: BulkItem, version: string): string {
+  return `/experimental/content/${item.key}/versions/${version}` +
+    (item.locale ? `?locale=${encodeURIComponent(item.locale)}` : '');
+}
+
+const mergePatch = (body: unknown): RequestInit => ({
+  method: 'PATCH',
+  headers: { 'Content-Type': 'application/merge-patch+json' },
+  body: JSON.stringify(body)
+});
+
+type ItemWorker = (client: OptimizelyContentClient, item: BulkItem, operation: Record<string, any>) => Promise<BulkItemResult>;
+
+// RFC 7386: objects merge recursively, null removes a field
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    return patch;
+  }
+  const result: Record<string, unknown> = target && typeof target === 'object' && !Array.isArray(target)
+    ? { ...(target as Record<string, unknown>) }
+    : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+const updateItem: ItemWorker = async (client, item, operation) => {
+  const latest = await getLatestVersion(client, item);
+  if (!latest) {
+    return { key: item.key, locale: item.locale, status: 'skipped', reason: 'No version in this locale' };
+  }
+  if (latest.status !== 'published') {
+    await client.request(versionEndpoint(item, latest.version), mergePatch(operation));
+    return { key: item.key, locale: item.locale, status: 'updated', version: latest.version };
+  }
+
+  // Never edit live content in place: apply the change to a new draft of the published version
+  const published = await client.get<any>(versionEndpoint(item, latest.version));
+  const draft = await client.post<any>(
+    `/experimental/content/${item.key}/versions` + (item.locale ? `?locale=${encodeURIComponent(item.locale)}` : ''),
+    {
+      displayName: operation.displayName ?? published.displayName,
+      properties: applyMergePatch(published.properties, operation.properties ?? {}),
+      status: 'draft'
+    }
+  );
+  return {
+    key: item.key,
+    locale: item.locale,
+    status: 'updated',
+    version: draft?.version,
+    reason: `Created a draft from published version ${latest.version}`
+  };
+};
+
+const publishItem: ItemWorker = async (client, item) => {
+  const latest = await getLatestVersion(client, item);
+  if (!latest) {
+    return { key: item.key, locale: item.locale, status: 'skipped', reason: 'No version in this locale' };
+  }
+  if (latest.status === 'published') {
+    return { key: item.key, locale: item.locale, status: 'skipped', version: latest.version, reason: 'Already published' };
+  }
+  await client.request(versionEndpoint(item, latest.version), mergePatch({ status: 'published' }));
+  return { key: item.key, locale: item.locale, status: 'published', version: latest.version };
+};
+
+/**
+ * Shared driver: resolve (or resume) the targets, process one batch with
+ * bounded concurrency and hand back a token for the rest.
+ */
+async function runBulk(
+  config: Config,
+  tool: BulkTool,
+  params: z.input<typeof BulkTargetSchema>,
+  operation: Record<string, any>,
+  worker: ItemWorker,
+  progress?: ProgressReporter
+): Promise<CallToolResult> {
+  const logger = getLogger();
+  const batchSize = params.batchSize ?? 50;
+  const concurrency = params.concurrency ?? 4;
+
+  let state: ContinuationState;
+  let truncated = false;
+  if (params.continuationToken) {
+    state = decodeContinuation(config, params.continuationToken, tool);
+  } else {
+    const targets = await resolveTargets(config, { ...params, maxItems: params.maxItems ?? 500 });
+    truncated = targets.truncated;
+    state = {
+      tool,
+      environment: config.environment || 'default',
+      operation,
+      remaining: targets.items.map(item => [item.key, item.locale ?? null]),
+      processed: 0,
+      failed: 0,
+      total: targets.items.length
+    };
+  }
+
+  const batch: BulkItem[] = state.remaining
+    .slice(0, batchSize)
+    .map(([key, locale]) => ({ key, locale: locale ?? undefined }));
+  const rest = state.remaining.slice(batchSize);
+
+  if (params.dryRun) {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          dryRun: true,
+          tool,
+          matched: state.total,
+          truncated: truncated || undefined,
+          operation: state.operation,
+          nextBatch: batch,
+          message: `Dry run - ${state.remaining.length} item(s) would be processed in batches of ${batchSize}. Nothing was changed.`
+        }, null, 2)
+      }]
+    };
+  }
+
+  const client = new OptimizelyContentClient(getCMAConfig(config));
+  let done = 0;
+  await progress?.(state.processed, state.total, `Processing ${batch.length} item(s)`);
+
+  const results = await mapWithConcurrency(batch, concurrency, async (item) => {
+    let result: BulkItemResult;
+    try {
+      result = await worker(client, item, state.operation);
+    } catch (error) {
+      result = {
+        key: item.key,
+        locale: item.locale,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+    done++;
+    await progress?.(state.processed + done, state.total, `${item.key}: ${result.status}`);
+    return result;
+  });
+
+  const failed = results.filter(result => result.status === 'failed').length;
+  const next: ContinuationState = {
+    ...state,
+    remaining: rest,
+    processed: state.processed + batch.length,
+    failed: state.failed + failed
+  };
+
+  logger.info(`${tool} processed ${batch.length} item(s), ${failed} failed, ${rest.length} remaining`);
+
+  const count = (status: BulkItemResult['status']) => results.filter(result => result.status === status).length;
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: failed === 0,
+        tool,
+        batch: {
+          processed: batch.length,
+          updated: count('updated') || undefined,
+          published: count('published') || undefined,
+          skipped: count('skipped'),
+          failed
+        },
+        overall: {
+          matched: next.total,
+          processed: next.processed,
+          failed: next.failed,
+          remaining: rest.length
+        },
+        truncated: truncated || undefined,
+        results,
+        continuationToken: rest.length > 0 ? encodeContinuation(config, next) : undefined,
+        message: rest.length > 0
+          ? `Processed ${next.processed} of ${next.total}. Call again with the continuationToken to continue.`
+          : `Done - processed ${next.processed} item(s), ${next.failed} failed`
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Apply the same property or display name change to every matching item.
+ */
+export async function executeContentBulkUpdate(
+  config: Config,
+  params: any,
+  progress?: ProgressReporter
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(BulkUpdateSchema, params);
+
+    const operation: Record<string, any> = {};
+    if (validatedParams.properties) {
+      operation.properties = sanitizeInput(validatedParams.properties);
+    }
+    if (validatedParams.displayName) {
+      operation.displayName = validatedParams.displayName;
+    }
+    if (!validatedParams.continuationToken && Object.keys(operation).length === 0) {
+      throw new ValidationError('Provide properties or displayName to update');
+    }
+
+    return await runBulk(config, 'content-bulk-update', validatedParams, operation, updateItem, progress);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * Publish the latest version of every matching item.
+ */
+export async function executeContentBulkPublish(
+  config: Config,
+  params: any,
+  progress?: ProgressReporter
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(BulkTargetSchema, params);
+    return await runBulk(config, 'content-bulk-publish', validatedParams, {}, publishItem, progress);
+  } catch (error) {
+    return handleError(error);
+  }
+}
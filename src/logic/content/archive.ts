@@ -0,0 +1,147 @@
+/**
+ * Portable content archive
+ *
+ * The file format written by content-export and read by content-import. An
+ * archive is a manifest plus one record per content item (parents before
+ * children), stored either as one JSON document or as NDJSON with the
+ * manifest on the first line.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'node:crypto';
+import { ValidationError } from '../../utils/errors.js';
+import type { ContentSnapshot } from './tree.js';
+
+export const ARCHIVE_FORMAT = 'optimizely-content-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveFileFormat = 'json' | 'ndjson';
+
+export interface ArchiveContentType {
+  baseType?: string;
+  // Hash of the property definitions; a different value on import means the type changed
+  fingerprint: string;
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    environment?: string;
+    cmaBaseUrl?: string;
+    rootKey: string;
+    rootPath?: string;
+    discovery: 'graph' | 'cma';
+  };
+  locales: string[];
+  itemCount: number;
+  truncated: boolean;
+  contentTypes: Record<string, ArchiveContentType>;
+  // Media referenced from the exported content but stored outside the subtree
+  assets: string[];
+  // Other content outside the subtree that exported items point at
+  externalReferences: string[];
+}
+
+export interface ArchiveItem extends ContentSnapshot {
+  parentKey?: string;
+  depth: number;
+  // Normalized keys of all content referenced from the item's properties
+  references: string[];
+}
+
+export interface ContentArchive {
+  manifest: ArchiveManifest;
+  items: ArchiveItem[];
+}
+
+// JSON with object keys sorted, so equal definitions hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprint a content type by its base type and property definitions
+ * (names, types, formats and allowed item types; not display names).
+ */
+export function fingerprintContentType(definition: any): string {
+  const describe = (properties: Record<string, any> = {}): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, {
+      type: property?.type,
+      format: property?.format,
+      items: property?.items?.type,
+      contentType: property?.contentType ?? property?.items?.contentType,
+      properties: property?.properties ? describe(property.properties) : undefined
+    }]));
+
+  return createHash('sha256')
+    .update(canonicalJson({ baseType: definition?.baseType, properties: describe(definition?.properties) }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function archiveFormatFromPath(filePath: string): ArchiveFileFormat {
+  return /\.(ndjson|jsonl)$/i.test(filePath) ? 'ndjson' : 'json';
+}
+
+export async function writeArchive(
+  filePath: string,
+  archive: ContentArchive,
+  format: ArchiveFileFormat = archiveFormatFromPath(filePath)
+): Promise<void> {
+  const data = format === 'ndjson'
+    ? [archive.manifest, ...archive.items].map(record => JSON.stringify(record)).join('\n') + '\n'
+    : JSON.stringify(archive, null, 2);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, data, 'utf-8');
+}
+
+export async function readArchive(filePath: string): Promise<ContentArchive> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new ValidationError(`Archive not found: ${filePath}`);
+    }
+    throw error;
+  }
+
+  let archive: ContentArchive;
+  try {
+    archive = JSON.parse(data);
+    // A single-line NDJSON archive is just the manifest
+    if ((archive as any)?.format === ARCHIVE_FORMAT) {
+      archive = { manifest: archive as unknown as ArchiveManifest, items: [] };
+    }
+  } catch {
+    try {
+      const [manifest, ...items] = data.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+      archive = { manifest, items };
+    } catch {
+      throw new ValidationError(`${filePath} is not a valid JSON or NDJSON archive`);
+    }
+  }
+
+  if (archive?.manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.items)) {
+    throw new ValidationError(`${filePath} is not a content archive (missing "${ARCHIVE_FORMAT}" manifest)`);
+  }
+  if (archive.manifest.version > ARCHIVE_VERSION) {
+    throw new ValidationError(
+      `Archive version ${archive.manifest.version} is newer than this server supports (${ARCHIVE_VERSION})`
+    );
+  }
+
+  return archive;
+}
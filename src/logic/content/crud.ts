@@ -13,6 +13,8 @@ import { AdapterRegistry } from '../../adapters/registry.js';
 import { IntelligentFieldPopulator } from './intelligent-populator.js';
 import { getLogger } from '../../utils/logger.js';
 import { SchemaFieldDiscovery } from './schema-field-discovery.js';
+import { createDryRunResult } from './dry-run.js';
+import { ContentOutputSchema, formatContentResult } from './render.js';
 
 // Validation schemas
 // Removed unused ContentReferenceSchema
@@ -24,7 +26,8 @@ const CreateContentSchema = z.object({
   properties: z.record(z.any()).optional(),
   parentId: z.union([z.string(), z.number(), z.null()]).optional(),
   container: z.string().optional(), // GUID of parent container
-  language: z.string().optional().default('en')
+  language: z.string().optional().default('en'),
+  dryRun: z.boolean().optional().default(false)
 });
 
 const UpdateContentSchema = z.object({
@@ -32,7 +35,8 @@ const UpdateContentSchema = z.object({
   properties: z.record(z.any()).optional(),
   name: z.string().optional(),
   language: z.string().optional(),
-  createVersion: z.boolean().optional()
+  createVersion: z.boolean().optional(),
+  dryRun: z.boolean().optional().default(false)
 });
 
 const PatchContentSchema = z.object({
@@ -43,26 +47,30 @@ const PatchContentSchema = z.object({
     value: z.any().optional(),
     from: z.string().optional()
   })),
-  language: z.string().optional()
+  language: z.string().optional(),
+  dryRun: z.boolean().optional().default(false)
 });
 
 const DeleteContentSchema = z.object({
   contentId: z.union([z.string(), z.number()]),
   permanent: z.boolean().optional().default(false),
-  includeDescendants: z.boolean().optional().default(false)
+  includeDescendants: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false)
 });
 
 const MoveContentSchema = z.object({
   contentId: z.union([z.string(), z.number()]),
   targetId: z.union([z.string(), z.number()]),
-  createRedirect: z.boolean().optional().default(false)
+  createRedirect: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false)
 });
 
 const CopyContentSchema = z.object({
   contentId: z.union([z.string(), z.number()]),
   targetId: z.union([z.string(), z.number()]),
   includeDescendants: z.boolean().optional().default(false),
-  newName: z.string().optional()
+  newName: z.string().optional(),
+  dryRun: z.boolean().optional().default(false)
 });
 
 // Helper function to parse content reference
@@ -253,6 +261,20 @@ export async function executeContentCreate(
       properties: request.properties
     });
     
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        client.describeRequest('/experimental/content', {
+          method: 'POST',
+          body: JSON.stringify(request)
+        }),
+        {
+          missingRequired: populationResult.missingRequired,
+          suggestions: [...mappingResult.mappingSuggestions, ...populationResult.suggestions],
+          unmappedFields: mappingResult.unmappedFields
+        }
+      );
+    }
+
     // For localized content types, locale must be in the body
     // Create content in a single step
     let result: any;
@@ -322,6 +344,7 @@ export async function executeContentGet(
       throw new ValidationError('Content ID is required. Pass it as "contentId" parameter, e.g., {"contentId": "fe8be9de716048a8a16f5fcdd25b04f9"}');
     }
     
+    const output = validateInput(ContentOutputSchema, params);
     const client = new OptimizelyContentClient(config);
     
     // Use experimental endpoint for content operations
@@ -335,12 +358,12 @@ export async function executeContentGet(
     
     const result = await client.get<ContentItem>(path, queryParams);
     
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(result, null, 2)
-      }]
-    };
+    return formatContentResult(result, {
+      format: output.format ?? 'json',
+      maxFieldLength: output.maxFieldLength,
+      // Same version and language, so the hint fetches the item that was truncated
+      fullValueHint: `content-get ${JSON.stringify({ contentId, version, language })}`
+    });
   } catch (error) {
     return handleError(error);
   }
@@ -378,6 +401,7 @@ export async function executeContentUpdate(
     
     // API uses PATCH with merge-patch+json for updates
     const patchData: any = {};
+    const validationFindings: { errors?: unknown[]; warnings?: unknown[] } = {};
     
     if (validatedParams.name) {
       patchData.displayName = validatedParams.name;
@@ -405,20 +429,26 @@ export async function executeContentUpdate(
         logger.info('Content validation suggestions:', validationResult.warnings);
       }
       
+      validationFindings.errors = validationResult.errors;
+      validationFindings.warnings = validationResult.warnings;
+
       patchData.properties = validationResult.transformed.properties || mergedProperties;
     }
     
+    const requestOptions: RequestInit = {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/merge-patch+json'
+      },
+      body: JSON.stringify(patchData)
+    };
+
+    if (validatedParams.dryRun) {
+      return createDryRunResult(client.describeRequest(endpoint, requestOptions), validationFindings);
+    }
+
     // Use the patch method with proper content type
-    const result = await client.request<ContentItem>(
-      endpoint,
-      {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/merge-patch+json'
-        },
-        body: JSON.stringify(patchData)
-      }
-    );
+    const result = await client.request<ContentItem>(endpoint, requestOptions);
     
     return {
       content: [{
@@ -443,6 +473,18 @@ export async function executeContentPatch(
     const validatedParams = validateInput(PatchContentSchema, params);
     const client = new OptimizelyContentClient(config);
     
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        client.describeRequest(client.getContentPath(validatedParams.contentId.toString()), {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json-patch+json'
+          },
+          body: JSON.stringify(validatedParams.patches)
+        })
+      );
+    }
+
     const result = await client.patch<ContentItem>(
       client.getContentPath(validatedParams.contentId.toString()),
       validatedParams.patches,
@@ -481,6 +523,14 @@ export async function executeContentDelete(
       headers['cms-permanent-delete'] = 'true';
     }
     
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        client.describeRequest(path, { method: 'DELETE', headers }),
+        {},
+        { affects: await describeAffectedContent(client, validatedParams.contentId) }
+      );
+    }
+
     await client.request(path, {
       method: 'DELETE',
       headers
@@ -513,17 +563,27 @@ export async function executeContentMove(
     const patchData = {
       container: validatedParams.targetId.toString()
     };
+    const path = `/experimental/content/${validatedParams.contentId}`;
+    const requestOptions: RequestInit = {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/merge-patch+json'
+      },
+      body: JSON.stringify(patchData)
+    };
     
-    const result = await client.request<any>(
-      `/experimental/content/${validatedParams.contentId}`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/merge-patch+json'
-        },
-        body: JSON.stringify(patchData)
-      }
-    );
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        client.describeRequest(path, requestOptions),
+        {},
+        {
+          affects: await describeAffectedContent(client, validatedParams.contentId),
+          destination: await describeAffectedContent(client, validatedParams.targetId)
+        }
+      );
+    }
+
+    const result = await client.request<any>(path, requestOptions);
     
     return {
       content: [{
@@ -557,10 +617,20 @@ export async function executeContentCopy(
       request.keepPublishedStatus = true; // Preserve published status during copy
     }
     
-    const result = await client.post<any>(
-      `/experimental/content/${validatedParams.contentId}:copy`,
-      request
-    );
+    const path = `/experimental/content/${validatedParams.contentId}:copy`;
+
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        client.describeRequest(path, { method: 'POST', body: JSON.stringify(request) }),
+        {},
+        {
+          affects: await describeAffectedContent(client, validatedParams.contentId),
+          destination: await describeAffectedContent(client, validatedParams.targetId)
+        }
+      );
+    }
+
+    const result = await client.post<any>(path, request);
     
     return {
       content: [{
@@ -575,4 +645,19 @@ export async function executeContentCopy(
   } catch (error) {
     return handleError(error);
   }
-}
\ No newline at end of file
+}
+
+// Summary of an existing item for dry-run output; fails with NotFoundError if it does not exist
+async function describeAffectedContent(
+  client: OptimizelyContentClient,
+  contentId: string | number
+): Promise<Record<string, unknown>> {
+  const content = await client.get<any>(`/experimental/content/${contentId}`);
+  return {
+    key: content.key ?? contentId,
+    displayName: content.displayName,
+    contentType: content.contentType,
+    container: content.container,
+    locales: Object.keys(content.locales || {})
+  };
+}
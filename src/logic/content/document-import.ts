@@ -0,0 +1,250 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { OptimizelyGraphClient } from '../../clients/graph-client.js';
+import { getCMAConfig, getGraphConfig, type Config } from '../../config.js';
+import { ContentFieldMapper } from '../../utils/content-field-mapper.js';
+import { handleError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput, resolvePathWithin } from '../../utils/validation.js';
+import {
+  detectDocumentFormat,
+  escapeHtml,
+  htmlToText,
+  parseDocument,
+  type ParsedDocument
+} from './document.js';
+import { executeIntelligentCreate } from './intelligent-create.js';
+import { SchemaFieldDiscovery, type SchemaField } from './schema-field-discovery.js';
+
+const MAX_DOCUMENT_SIZE = 2 * 1024 * 1024;
+
+const ImportDocumentSchema = z.object({
+  parentName: z.string().min(1),
+  contentType: z.string().min(1),
+  document: z.string().optional(),
+  filePath: z.string().optional(),
+  format: z.enum(['markdown', 'html']).optional(),
+  name: z.string().optional(),
+  language: z.string().optional().default('en'),
+  fieldMapping: z.object({
+    title: z.string().optional(),
+    intro: z.string().optional(),
+    body: z.string().optional()
+  }).optional(),
+  autoConfirm: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false)
+}).refine(params => !!params.document !== !!params.filePath, {
+  message: 'Provide either document or filePath'
+});
+
+function isXhtmlField(field: SchemaField): boolean {
+  return field.type === 'XhtmlString' || field.format?.toLowerCase() === 'html';
+}
+
+async function loadDocument(params: { document?: string; filePath?: string }, exportDir: string): Promise<string> {
+  if (params.document !== undefined) {
+    return params.document;
+  }
+
+  const filePath = await resolvePathWithin(exportDir, params.filePath!, 'filePath');
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) {
+    throw new ValidationError(`File not found: ${filePath}`);
+  }
+  if (stat.size > MAX_DOCUMENT_SIZE) {
+    throw new ValidationError(`${filePath} is larger than ${MAX_DOCUMENT_SIZE / 1024 / 1024} MB`);
+  }
+  return fs.readFile(filePath, 'utf-8');
+}
+
+/**
+ * The main rich text field of a type, as ContentFieldMapper sees it in the
+ * Graph schema. Graph being unavailable is not fatal: name matching on
+ * "body" takes over.
+ */
+async function findBodyField(config: Config, contentType: string): Promise<string | null> {
+  try {
+    const mapper = new ContentFieldMapper(new OptimizelyGraphClient(getGraphConfig(config)));
+    return await mapper.getMainContentField(contentType);
+  } catch (error) {
+    getLogger().debug(`Could not determine the main content field of ${contentType} from Graph`, error);
+    return null;
+  }
+}
+
+function formatValue(field: SchemaField, section: string, document: ParsedDocument, value: string): string {
+  if (!isXhtmlField(field)) {
+    return section === 'body' ? htmlToText(value) : value;
+  }
+  if (section === 'body') return value;
+  if (section === 'intro') return document.introHtml || `<p>${escapeHtml(value)}</p>`;
+  return escapeHtml(value);
+}
+
+/**
+ * Create a content item from a Markdown or HTML document. The title, intro,
+ * body and front matter are mapped onto the type's properties; rich text is
+ * sanitized before it is stored. Creation goes through the intelligent
+ * create flow, so the parent is found by name.
+ */
+export async function executeContentImportDocument(
+  config: Config,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(ImportDocumentSchema, params);
+    const logger = getLogger();
+    const cmaConfig = getCMAConfig(config);
+
+    const source = await loadDocument(validatedParams, config.options.exportDir);
+    const format = validatedParams.format || detectDocumentFormat(source, validatedParams.filePath);
+    const document = parseDocument(source, format);
+
+    const name = validatedParams.name || document.title;
+    if (!name) {
+      throw new ValidationError('The document has no title (h1 or front matter "title"). Provide name.');
+    }
+
+    const discovery = new SchemaFieldDiscovery(cmaConfig);
+    const schema = await discovery.getContentTypeSchema(validatedParams.contentType);
+    const fields = new Map(schema.fields.map(field => [field.name, field]));
+    const explicit = validatedParams.fieldMapping || {};
+    for (const fieldName of Object.values(explicit)) {
+      if (fieldName && !fields.has(fieldName)) {
+        throw new ValidationError(
+          `${validatedParams.contentType} has no property "${fieldName}". Available: ${Array.from(fields.keys()).join(', ')}`
+        );
+      }
+    }
+
+    // 1. Body: explicit, else the type's main content field
+    let bodyField = explicit.body || await findBodyField(config, validatedParams.contentType);
+    if (bodyField && !fields.has(bodyField)) {
+      bodyField = null;
+    }
+
+    // 2. Everything else by name, the same way content-create maps properties
+    const sections: Record<string, string> = { ...document.frontMatter };
+    if (document.title) sections.title = document.title;
+    if (document.intro) sections.intro = document.intro;
+    if (!bodyField) sections.body = document.bodyHtml;
+
+    const mapping = await discovery.mapFieldsDynamically(validatedParams.contentType, sections);
+    const targetOf = (section: string): string | undefined => {
+      const override = explicit[section as keyof typeof explicit];
+      if (override) return override;
+      if (fields.has(section)) return section;
+      return mapping.mappingSuggestions.find(
+        suggestion => suggestion.userField === section && suggestion.confidence !== 'low'
+      )?.suggestedField;
+    };
+
+    const fieldMapping: Record<string, string> = {};
+    const used = new Set<string>(bodyField ? [bodyField] : []);
+    const unmapped: string[] = [];
+    for (const section of Object.keys(sections)) {
+      const target = targetOf(section);
+      if (target && fields.has(target) && !used.has(target)) {
+        fieldMapping[section] = target;
+        used.add(target);
+      } else {
+        unmapped.push(section);
+      }
+    }
+    if (bodyField) {
+      fieldMapping.body = bodyField;
+    }
+
+    // An intro with nowhere to go stays at the top of the body
+    let bodyHtml = document.bodyHtml;
+    if (unmapped.includes('intro') && document.introHtml) {
+      bodyHtml = `${document.introHtml}\n${bodyHtml}`.trim();
+      unmapped.splice(unmapped.indexOf('intro'), 1);
+    }
+
+    const warnings: string[] = [];
+    const properties: Record<string, any> = {};
+    for (const [section, target] of Object.entries(fieldMapping)) {
+      const value = section === 'body' ? bodyHtml : sections[section];
+      if (!value) continue;
+      const field = fields.get(target)!;
+      if (section === 'body' && !isXhtmlField(field)) {
+        warnings.push(`${target} is not a rich text property; the body was imported as plain text`);
+      }
+      properties[target] = formatValue(field, section, document, value);
+    }
+    if (!fieldMapping.body && bodyHtml) {
+      warnings.push(`No property found for the body. Pass fieldMapping.body with one of: ${Array.from(fields.keys()).join(', ')}`);
+    }
+    // The title is always used as the item name, so it is never lost
+    const notImported = unmapped.filter(section => section !== 'body' && section !== 'title');
+    if (notImported.length > 0) {
+      warnings.push(`Not imported (no matching property): ${notImported.join(', ')}`);
+    }
+
+    const summary = {
+      format,
+      title: document.title,
+      intro: document.intro,
+      headings: document.headings,
+      bodyLength: bodyHtml.length
+    };
+
+    if (validatedParams.dryRun) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            dryRun: true,
+            document: summary,
+            contentType: validatedParams.contentType,
+            parentName: validatedParams.parentName,
+            name,
+            fieldMapping,
+            properties,
+            warnings: warnings.length > 0 ? warnings : undefined,
+            message: 'Dry run - nothing was created.'
+          }, null, 2)
+        }]
+      };
+    }
+
+    logger.info(`Importing ${format} document "${name}" as ${validatedParams.contentType}`, { fieldMapping });
+
+    const result = await executeIntelligentCreate(getGraphConfig(config), cmaConfig, {
+      parentName: validatedParams.parentName,
+      contentType: validatedParams.contentType,
+      name,
+      displayName: name,
+      properties,
+      language: validatedParams.language,
+      autoConfirm: validatedParams.autoConfirm
+    });
+
+    const text = (result.content?.[0] as any)?.text;
+    if (result.isError || typeof text !== 'string') {
+      return result;
+    }
+    let created: Record<string, any>;
+    try {
+      created = JSON.parse(text);
+    } catch {
+      return result;
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ...created,
+          document: summary,
+          fieldMapping,
+          warnings: warnings.length > 0 ? warnings : undefined
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,354 @@
+import sanitize from 'sanitize-html';
+
+/**
+ * Document parsing for content-import-document
+ *
+ * Turns Markdown or HTML into the parts editors think in (title, intro,
+ * headings, body) and sanitizes HTML before it is stored in XhtmlString
+ * properties. Deliberately small: block-level Markdown plus the common inline
+ * syntax, no extensions.
+ */
+
+export type DocumentFormat = 'markdown' | 'html';
+
+export interface DocumentHeading {
+  level: number;
+  text: string;
+}
+
+export interface ParsedDocument {
+  title?: string;
+  // Plain text of the first paragraph after the title
+  intro?: string;
+  introHtml?: string;
+  headings: DocumentHeading[];
+  // Everything except the title and intro, as HTML
+  bodyHtml: string;
+  // Key/value pairs from a Markdown front matter block
+  frontMatter: Record<string, string>;
+}
+
+const SANITIZE_OPTIONS: sanitize.IOptions = {
+  allowedTags: [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'strong', 'b', 'em', 'i', 'u', 's', 'del', 'sub', 'sup', 'span',
+    'a', 'img', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td', 'figure', 'figcaption'
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'target', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    // language-xxx on fenced code
+    code: ['class'],
+    th: ['colspan', 'rowspan'],
+    td: ['colspan', 'rowspan']
+  },
+  // Relative URLs are kept; absolute ones need one of these schemes
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  allowedSchemesAppliedToAttributes: ['href', 'src'],
+  // Dropped together with everything inside them
+  nonTextTags: ['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'head', 'textarea', 'option'],
+  selfClosing: ['br', 'hr', 'img']
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Allowlist sanitizer: keeps formatting, links, images and tables, removes
+ * scripts, event handlers, inline styles and unsafe URLs. Uses a real HTML
+ * parser, so malformed markup such as unterminated tags cannot slip through.
+ */
+export function sanitizeHtml(html: string): string {
+  return sanitize(html, SANITIZE_OPTIONS);
+}
+
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_match, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\uE000${codeSpans.length - 1}\uE000`;
+  });
+
+  html = html
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (_match, alt: string, src: string, title?: string) =>
+      `<img src="${src}" alt="${alt}"${title ? ` title="${title}"` : ''} />`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (_match, label: string, href: string, title?: string) =>
+      `<a href="${href}"${title ? ` title="${title}"` : ''}>${label}</a>`)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(?=\S)([\s\S]*?\S)\1/g, '<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n/g, '<br />\n');
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_match, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Convert Markdown to HTML: ATX and setext headings, paragraphs, lists,
+ * blockquotes, fenced and indented code, horizontal rules, emphasis, code
+ * spans, links and images.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let index = 0;
+
+  const isBlockStart = (line: string) =>
+    /^(#{1,6})\s/.test(line) || /^```/.test(line) || /^>\s?/.test(line) ||
+    /^\s*([-*+]|\d+[.)])\s+/.test(line) || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line);
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(/^```\s*([\w-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !/^```/.test(lines[index])) {
+        code.push(lines[index++]);
+      }
+      index++;
+      const language = fence[1] ? ` class="language-${fence[1]}"` : '';
+      blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      blocks.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      index++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push('<hr />');
+      index++;
+      continue;
+    }
+
+    if (/^>\s?/.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && /^>\s?/.test(lines[index])) {
+        quoted.push(lines[index++].replace(/^>\s?/, ''));
+      }
+      blocks.push(`<blockquote>${markdownToHtml(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (lines[index].trim() && /^\s{2,}/.test(lines[index]) && items.length > 0) {
+          items[items.length - 1] += ' ' + lines[index].trim();
+        } else {
+          break;
+        }
+        index++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    if (/^( {4}|\t)/.test(line)) {
+      const code: string[] = [];
+      while (index < lines.length && (/^( {4}|\t)/.test(lines[index]) || !lines[index].trim())) {
+        code.push(lines[index++].replace(/^( {4}|\t)/, ''));
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n').trimEnd())}</code></pre>`);
+      continue;
+    }
+
+    // Paragraph, possibly a setext heading (underlined with === or ---)
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && (paragraph.length === 0 || !isBlockStart(lines[index]))) {
+      const underline = lines[index].match(/^(=+|-+)\s*$/);
+      if (underline && paragraph.length > 0) {
+        const level = underline[1][0] === '=' ? 1 : 2;
+        blocks.push(`<h${level}>${renderInline(paragraph.join('\n'))}</h${level}>`);
+        paragraph.length = 0;
+        index++;
+        break;
+      }
+      paragraph.push(lines[index++]);
+    }
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+    }
+  }
+
+  return blocks.join('\n');
+}
+
+/**
+ * Convert (sanitized) HTML to Markdown: the inverse of markdownToHtml, plus
+ * tables. Unknown elements are reduced to their text.
+ */
+export function htmlToMarkdown(html: string): string {
+  const codeBlocks: string[] = [];
+  let markdown = sanitizeHtml(html)
+    .replace(/\r\n?/g, '\n')
+    .replace(/<pre[^>]*>\s*(?:<code([^>]*)>)?([\s\S]*?)(?:<\/code>)?\s*<\/pre>/gi, (_match, attributes = '', code: string) => {
+      const language = String(attributes).match(/language-([\w-]+)/)?.[1] || '';
+      codeBlocks.push('```' + language + '\n' + decodeEntities(code.replace(/<[^>]*>/g, '')).trimEnd() + '\n```');
+      return `\n\n\uE000${codeBlocks.length - 1}\uE000\n\n`;
+    })
+    // Source formatting whitespace means nothing outside <pre>
+    .replace(/\s+/g, ' ');
+
+  markdown = markdown
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, text: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${text.trim()}\n\n`)
+    .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<(del|s)>([\s\S]*?)<\/\1>/gi, '~~$2~~')
+    .replace(/<code>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<img([^>]*)\/?>/gi, (_match, attributes: string) => {
+      const src = attributes.match(/src="([^"]*)"/)?.[1] || '';
+      const alt = attributes.match(/alt="([^"]*)"/)?.[1] || '';
+      return `![${alt}](${src})`;
+    })
+    .replace(/<a([^>]*)>([\s\S]*?)<\/a>/gi, (_match, attributes: string, text: string) => {
+      const href = attributes.match(/href="([^"]*)"/)?.[1];
+      return href ? `[${text.trim()}](${href})` : text;
+    })
+    .replace(/<br\s*\/?>/gi, '  \n')
+    .replace(/<hr\s*\/?>/gi, '\n\n---\n\n');
+
+  // Lists, innermost first: a converted nested list is indented under its item
+  const listPattern = /<(ul|ol)>((?:(?!<(?:ul|ol)>)[\s\S])*?)<\/\1>/i;
+  let list: RegExpMatchArray | null;
+  while ((list = markdown.match(listPattern)) !== null) {
+    const ordered = list[1].toLowerCase() === 'ol';
+    let number = 0;
+    const items = Array.from(list[2].matchAll(/<li>([\s\S]*?)<\/li>/gi)).map(item => {
+      const marker = ordered ? `${++number}.` : '-';
+      const lines = item[1].trim().split('\n').map(line => line.trimEnd()).filter(Boolean);
+      return `${marker} ${lines.join('\n' + ' '.repeat(marker.length + 1))}`;
+    });
+    markdown = markdown.replace(list[0], `\n${items.join('\n')}\n`);
+  }
+
+  markdown = markdown
+    .replace(/<blockquote>([\s\S]*?)<\/blockquote>/gi, (_match, text: string) =>
+      `\n\n${htmlToMarkdown(text).split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`)
+    .replace(/<tr>([\s\S]*?)<\/tr>/gi, (_match, row: string) => {
+      const cells = Array.from(row.matchAll(/<(th|td)[^>]*>([\s\S]*?)<\/\1>/gi)).map(cell => cell[2].trim());
+      const header = /<th/i.test(row) ? `\n|${cells.map(() => ' --- ').join('|')}|` : '';
+      return `\n| ${cells.join(' | ')} |${header}`;
+    })
+    .replace(/<\/?(table|thead|tbody)[^>]*>/gi, '\n')
+    .replace(/<\/?(p|figure|figcaption)[^>]*>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '');
+
+  return decodeEntities(markdown)
+    .split('\n')
+    .map(line => line.replace(/^ (?=\S)/, '').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\uE000(\d+)\uE000/g, (_match, index: string) => codeBlocks[Number(index)])
+    .trim();
+}
+
+function parseFrontMatter(markdown: string): { frontMatter: Record<string, string>; content: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\s*(?:\r?\n|$)/);
+  if (!match) {
+    return { frontMatter: {}, content: markdown };
+  }
+
+  const frontMatter: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (pair) {
+      frontMatter[pair[1]] = pair[2].replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return { frontMatter, content: markdown.slice(match[0].length) };
+}
+
+export function detectDocumentFormat(source: string, fileName?: string): DocumentFormat {
+  if (fileName) {
+    if (/\.(html?|xhtml)$/i.test(fileName)) return 'html';
+    if (/\.(md|markdown|mdx|txt)$/i.test(fileName)) return 'markdown';
+  }
+  return /^\s*(<!doctype html|<html|<body|<(p|div|h[1-6]|article|section)\b)/i.test(source) ? 'html' : 'markdown';
+}
+
+/**
+ * Split a document into title, intro, headings and body. The title is the
+ * first h1 (or the front matter / <title> title), the intro the paragraph
+ * directly after it.
+ */
+export function parseDocument(source: string, format: DocumentFormat): ParsedDocument {
+  let frontMatter: Record<string, string> = {};
+  let html: string;
+  let documentTitle: string | undefined;
+
+  if (format === 'markdown') {
+    const parsed = parseFrontMatter(source);
+    frontMatter = parsed.frontMatter;
+    html = markdownToHtml(parsed.content);
+  } else {
+    const titleTag = source.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    documentTitle = titleTag ? htmlToText(titleTag[1]) || undefined : undefined;
+    const body = source.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+    html = body ? body[1] : source.replace(/<head\b[\s\S]*?<\/head>/i, '');
+  }
+
+  html = sanitizeHtml(html).trim();
+
+  let title: string | undefined = frontMatter.title;
+  delete frontMatter.title;
+  const h1 = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  if (h1) {
+    title = title || htmlToText(h1[1]);
+    html = html.replace(h1[0], '').trim();
+  }
+  title = title || documentTitle;
+
+  // The intro is a leading paragraph, before any other heading or block
+  let intro: string | undefined;
+  let introHtml: string | undefined;
+  const leading = html.match(/^<p[^>]*>([\s\S]*?)<\/p>/i);
+  if (leading && htmlToText(leading[1])) {
+    introHtml = leading[0];
+    intro = htmlToText(leading[1]);
+    html = html.slice(leading[0].length).trim();
+  }
+
+  const headings: DocumentHeading[] = [];
+  for (const heading of html.matchAll(/<h([2-6])[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+    headings.push({ level: Number(heading[1]), text: htmlToText(heading[2]) });
+  }
+
+  return { title, intro, introHtml, headings, bodyHtml: html, frontMatter };
+}
@@ -0,0 +1,41 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestPreview } from '../../clients/cma-client.js';
+
+// What the validation and field population pipeline found while preparing a write
+export interface DryRunFindings {
+  errors?: unknown[];
+  warnings?: unknown[];
+  suggestions?: unknown[];
+  missingRequired?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Result for a write that was prepared but not sent: the exact request plus
+ * the validation findings, so a reviewer can approve it before it is applied.
+ */
+export function createDryRunResult(
+  request: RequestPreview,
+  findings: DryRunFindings = {},
+  extra: Record<string, unknown> = {}
+): CallToolResult {
+  const validation = Object.fromEntries(
+    Object.entries(findings).filter(([, value]) => !(Array.isArray(value) && value.length === 0) && value !== undefined)
+  );
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        dryRun: true,
+        message: 'Dry run - the request below was NOT sent. Call again without dryRun to apply it.',
+        request,
+        validation: {
+          valid: !findings.errors?.length && !findings.missingRequired?.length,
+          ...validation
+        },
+        ...extra
+      }, null, 2)
+    }]
+  };
+}
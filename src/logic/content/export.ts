@@ -0,0 +1,273 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { OptimizelyGraphClient } from '../../clients/graph-client.js';
+import { getCMAConfig, getGraphConfig, type Config } from '../../config.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { handleError, NotFoundError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput, resolvePathWithin } from '../../utils/validation.js';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  archiveFormatFromPath,
+  fingerprintContentType,
+  writeArchive,
+  type ArchiveItem,
+  type ContentArchive
+} from './archive.js';
+import { collectContentReferences, normalizeContentKey } from './references.js';
+import { fetchContentSnapshot, walkContentTree, type ContentTreeNode } from './tree.js';
+
+const GRAPH_PAGE_SIZE = 100;
+const MEDIA_BASE_TYPES = new Set(['_media', '_image', '_video', 'media', 'image', 'video']);
+
+const ExportSchema = z.object({
+  rootKey: z.string().optional(),
+  rootPath: z.string().optional(),
+  locales: z.array(z.string()).optional(),
+  maxDepth: z.number().int().min(0).max(20).optional().default(10),
+  maxItems: z.number().int().min(1).max(5000).optional().default(500),
+  discovery: z.enum(['graph', 'cma']).optional().default('graph'),
+  outputPath: z.string().optional(),
+  format: z.enum(['json', 'ndjson']).optional()
+}).refine(params => !!params.rootKey !== !!params.rootPath, {
+  message: 'Provide either rootKey or rootPath'
+});
+
+async function resolveRootKey(graph: OptimizelyGraphClient, rootPath: string): Promise<string> {
+  const path = rootPath.startsWith('/') ? rootPath : `/${rootPath}`;
+  const result = await graph.query<any>(`
+    query ExportRoot($path: String) {
+      _Content(where: { _metadata: { url: { hierarchical: { eq: $path } } } }, limit: 1) {
+        items {
+          _metadata {
+            key
+          }
+        }
+      }
+    }
+  `, { path }, { operationName: 'ExportRoot' });
+
+  const key = result?._Content?.items?.[0]?._metadata?.key;
+  if (!key) {
+    throw new NotFoundError(`No content found at ${path}`);
+  }
+  return key;
+}
+
+/**
+ * Walk a subtree through Graph, one batched query per level. Only content
+ * that has been published to Graph is found.
+ */
+async function walkGraphTree(
+  graph: OptimizelyGraphClient,
+  rootKey: string,
+  maxDepth: number,
+  maxItems: number
+): Promise<{ nodes: ContentTreeNode[]; truncated: boolean }> {
+  const nodes: ContentTreeNode[] = [{ key: rootKey, depth: 0, metadata: {} }];
+  const seen = new Set([normalizeContentKey(rootKey)]);
+  let level = [rootKey];
+  let truncated = false;
+
+  for (let depth = 1; depth <= maxDepth && level.length > 0 && !truncated; depth++) {
+    const next: string[] = [];
+    for (let skip = 0; ; skip += GRAPH_PAGE_SIZE) {
+      const result = await graph.query<any>(`
+        query ExportChildren($containers: [String], $limit: Int!, $skip: Int!) {
+          _Content(where: { _metadata: { container: { in: $containers } } }, limit: $limit, skip: $skip) {
+            total
+            items {
+              _metadata {
+                key
+                container
+              }
+            }
+          }
+        }
+      `, { containers: level, limit: GRAPH_PAGE_SIZE, skip }, { operationName: 'ExportChildren' });
+
+      const page = result?._Content;
+      for (const item of page?.items || []) {
+        const key = item?._metadata?.key;
+        // Graph returns one item per language branch
+        if (!key || seen.has(normalizeContentKey(key))) continue;
+        if (nodes.length >= maxItems) {
+          truncated = true;
+          break;
+        }
+        seen.add(normalizeContentKey(key));
+        nodes.push({ key, parentKey: item._metadata.container, depth, metadata: {} });
+        next.push(key);
+      }
+
+      if (truncated || !page?.items?.length || skip + GRAPH_PAGE_SIZE >= (page.total ?? 0)) {
+        break;
+      }
+    }
+    level = next;
+  }
+
+  return { nodes, truncated };
+}
+
+/**
+ * Export a subtree, with every language branch, to a portable archive.
+ *
+ * The archive carries a manifest with content type fingerprints (so an import
+ * can detect changed types) and the keys of referenced media and other
+ * content outside the subtree.
+ */
+export async function executeContentExport(
+  config: Config,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(ExportSchema, params);
+    const maxDepth = validatedParams.maxDepth ?? 10;
+    const maxItems = validatedParams.maxItems ?? 500;
+    const discovery = validatedParams.discovery ?? 'graph';
+    const logger = getLogger();
+
+    const outputPath = validatedParams.outputPath
+      ? await resolvePathWithin(config.options.exportDir, validatedParams.outputPath, 'outputPath')
+      : undefined;
+
+    const cmaConfig = getCMAConfig(config);
+    const client = new OptimizelyContentClient(cmaConfig);
+    const graph = new OptimizelyGraphClient(getGraphConfig(config));
+
+    const rootKey = validatedParams.rootKey || await resolveRootKey(graph, validatedParams.rootPath!);
+
+    // 1. Find the items in the subtree (parents before children)
+    const tree = discovery === 'cma'
+      ? await walkContentTree(client, rootKey, { maxDepth, maxItems })
+      : await walkGraphTree(graph, rootKey, maxDepth, maxItems);
+
+    // 2. Full content of every language branch from the CMA
+    const snapshots = await mapWithConcurrency(tree.nodes, 4, node =>
+      fetchContentSnapshot(client, node.key, validatedParams.locales)
+    );
+
+    const items: ArchiveItem[] = [];
+    tree.nodes.forEach((node, index) => {
+      const snapshot = snapshots[index];
+      if (!snapshot) {
+        logger.warn(`Skipping ${node.key}: not found in the Content Management API`);
+        return;
+      }
+      items.push({
+        ...snapshot,
+        parentKey: index === 0 ? undefined : node.parentKey,
+        depth: node.depth,
+        references: Array.from(collectContentReferences(snapshot.locales))
+      });
+    });
+
+    if (items.length === 0) {
+      throw new NotFoundError(`Content ${rootKey} not found`);
+    }
+
+    // 3. Content type fingerprints (definitions are loaded once per type)
+    const definitions = new Map<string, Promise<any | null>>();
+    const getDefinition = (typeKey: string) => {
+      if (!definitions.has(typeKey)) {
+        definitions.set(typeKey, client.get<any>(`/contentTypes/${typeKey}`).catch(error => {
+          if (error instanceof NotFoundError) return null;
+          throw error;
+        }));
+      }
+      return definitions.get(typeKey)!;
+    };
+
+    const contentTypes: ContentArchive['manifest']['contentTypes'] = {};
+    for (const typeKey of new Set(items.map(item => item.contentType).filter(Boolean))) {
+      const definition = await getDefinition(typeKey);
+      if (definition) {
+        contentTypes[typeKey] = { baseType: definition.baseType, fingerprint: fingerprintContentType(definition) };
+      } else {
+        logger.warn(`Content type ${typeKey} not found; exported without a fingerprint`);
+      }
+    }
+
+    // 4. References leaving the subtree: media to copy separately, or other content
+    const exported = new Set(items.map(item => normalizeContentKey(item.key)));
+    const outside = Array.from(new Set(items.flatMap(item => item.references))).filter(key => !exported.has(key));
+    const outsideTypes = await mapWithConcurrency(outside, 4, async key => {
+      try {
+        const metadata = await client.get<any>(`/experimental/content/${key}`);
+        const typeKey = Array.isArray(metadata.contentType) ? metadata.contentType[0] : metadata.contentType;
+        const definition = await getDefinition(typeKey);
+        return String(definition?.baseType || '').toLowerCase();
+      } catch (error) {
+        if (error instanceof NotFoundError) return undefined;
+        throw error;
+      }
+    });
+    const assets = outside.filter((_, index) => MEDIA_BASE_TYPES.has(outsideTypes[index] || ''));
+    const externalReferences = outside.filter(key => !assets.includes(key));
+
+    const archive: ContentArchive = {
+      manifest: {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        source: {
+          environment: config.environment,
+          cmaBaseUrl: cmaConfig.baseUrl,
+          rootKey,
+          rootPath: validatedParams.rootPath,
+          discovery
+        },
+        locales: Array.from(new Set(items.flatMap(item => Object.keys(item.locales)))).sort(),
+        itemCount: items.length,
+        truncated: tree.truncated,
+        contentTypes,
+        assets,
+        externalReferences
+      },
+      items
+    };
+
+    const summary = {
+      rootKey,
+      items: items.length,
+      locales: archive.manifest.locales,
+      contentTypes: Object.keys(contentTypes).length,
+      assets: assets.length,
+      externalReferences: externalReferences.length,
+      truncated: tree.truncated || undefined
+    };
+
+    if (!outputPath) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ success: true, summary, archive }, null, 2)
+        }]
+      };
+    }
+
+    const format = validatedParams.format || archiveFormatFromPath(outputPath);
+    await writeArchive(outputPath, archive, format);
+    logger.info(`Exported ${items.length} item(s) to ${outputPath}`);
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: true,
+          outputPath,
+          format,
+          summary,
+          message: tree.truncated
+            ? `Exported ${items.length} item(s); the subtree is larger than maxItems/maxDepth allowed`
+            : `Exported ${items.length} item(s)`
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,386 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { getCMAConfig, type Config } from '../../config.js';
+import type { ProgressReporter } from '../../types/tools.js';
+import { handleError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput, resolvePathWithin } from '../../utils/validation.js';
+import { fingerprintContentType, readArchive, type ArchiveItem, type ContentArchive } from './archive.js';
+import { normalizeContentKey, remapContentReferences } from './references.js';
+
+const ImportSchema = z.object({
+  archivePath: z.string().min(1),
+  targetContainer: z.string().optional(),
+  conflictStrategy: z.enum(['skip', 'overwrite', 'create-new']).optional().default('skip'),
+  locales: z.array(z.string()).optional(),
+  checkpointPath: z.string().optional(),
+  resume: z.boolean().optional().default(true),
+  dryRun: z.boolean().optional().default(false)
+});
+
+type ConflictStrategy = 'skip' | 'overwrite' | 'create-new';
+type ImportAction = 'create' | 'overwrite' | 'create-new' | 'skip';
+
+interface ImportResult {
+  sourceKey: string;
+  targetKey: string;
+  action: ImportAction;
+  status: 'done' | 'planned' | 'already-imported' | 'failed' | 'skipped';
+  locales?: string[];
+  reason?: string;
+  error?: string;
+}
+
+// Written after every item so an interrupted import can pick up where it stopped
+interface ImportCheckpoint {
+  archivePath: string;
+  exportedAt: string;
+  rootKey: string;
+  targetContainer: string;
+  conflictStrategy: ConflictStrategy;
+  keyMap: Record<string, string>;
+  completed: Record<string, ImportResult>;
+  // Items that failed part-way: the planned action and the language branches already written
+  partial?: Record<string, { action: ImportAction; locales: string[] }>;
+  updatedAt: string;
+}
+
+async function readCheckpoint(filePath: string): Promise<ImportCheckpoint | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw new ValidationError(`Checkpoint ${filePath} is unreadable: ${error.message}. Delete it or pass resume: false.`);
+  }
+}
+
+async function writeCheckpoint(filePath: string, checkpoint: ImportCheckpoint): Promise<void> {
+  // Write then rename, so a crash never leaves a half-written checkpoint
+  const temporary = `${filePath}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify({ ...checkpoint, updatedAt: new Date().toISOString() }, null, 2), 'utf-8');
+  await fs.rename(temporary, filePath);
+}
+
+async function contentExists(client: OptimizelyContentClient, key: string): Promise<boolean> {
+  try {
+    await client.get(`/experimental/content/${key}`);
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Compare the archive's content types with the target: missing types block
+ * their items, changed fingerprints are reported as warnings.
+ */
+async function checkContentTypes(
+  client: OptimizelyContentClient,
+  archive: ContentArchive
+): Promise<{ missing: Set<string>; warnings: string[] }> {
+  const missing = new Set<string>();
+  const warnings: string[] = [];
+  const typeKeys = new Set([
+    ...Object.keys(archive.manifest.contentTypes),
+    ...archive.items.map(item => item.contentType)
+  ]);
+
+  for (const typeKey of typeKeys) {
+    try {
+      const definition = await client.get<any>(`/contentTypes/${typeKey}`);
+      const exported = archive.manifest.contentTypes[typeKey]?.fingerprint;
+      if (exported && exported !== fingerprintContentType(definition)) {
+        warnings.push(`Content type ${typeKey} differs from the exported definition; properties may not map`);
+      }
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      missing.add(typeKey);
+    }
+  }
+
+  return { missing, warnings };
+}
+
+async function writeItem(
+  client: OptimizelyContentClient,
+  item: ArchiveItem,
+  action: ImportAction,
+  targetKey: string,
+  container: string,
+  locales: string[],
+  keyMap: Map<string, string>,
+  written: string[],
+  onLocaleWritten: (locale: string) => Promise<void>
+): Promise<void> {
+  let exists = action === 'overwrite' || written.length > 0;
+
+  for (const locale of locales.filter(locale => !written.includes(locale))) {
+    const version = item.locales[locale];
+    const properties = remapContentReferences(version.properties, keyMap);
+    const displayName = version.displayName || item.displayName;
+
+    if (!exists) {
+      await client.post('/experimental/content', {
+        key: targetKey,
+        contentType: item.contentType,
+        container,
+        displayName,
+        locale,
+        status: 'draft',
+        properties
+      });
+      exists = true;
+    } else {
+      // Further language branches, or a new draft over existing content
+      await client.post(`/experimental/content/${targetKey}/versions?locale=${encodeURIComponent(locale)}`, {
+        displayName,
+        status: 'draft',
+        properties
+      });
+    }
+    await onLocaleWritten(locale);
+  }
+}
+
+/**
+ * Recreate the content of an archive written by content-export.
+ *
+ * Items are created parent-first as drafts. Target keys are decided up front
+ * (the archive key, or a new key for create-new conflicts) and references
+ * between archived items are rewritten to them. Progress is saved to a
+ * checkpoint file after every item, so a failed or interrupted import can be
+ * run again and continues with the same keys.
+ */
+export async function executeContentImport(
+  config: Config,
+  params: any,
+  progress?: ProgressReporter
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(ImportSchema, params);
+    const conflictStrategy: ConflictStrategy = validatedParams.conflictStrategy ?? 'skip';
+    const logger = getLogger();
+
+    const archivePath = await resolvePathWithin(config.options.exportDir, validatedParams.archivePath, 'archivePath');
+    const checkpointPath = validatedParams.checkpointPath
+      ? await resolvePathWithin(config.options.exportDir, validatedParams.checkpointPath, 'checkpointPath')
+      : `${archivePath}.checkpoint.json`;
+
+    const archive = await readArchive(archivePath);
+    const client = new OptimizelyContentClient(getCMAConfig(config));
+
+    // Parents first, whatever order the archive was written in
+    const items = [...archive.items].sort((a, b) => a.depth - b.depth);
+    const archivedKeys = new Set(items.map(item => normalizeContentKey(item.key)));
+
+    const targetContainer = validatedParams.targetContainer || items[0]?.container;
+    if (!targetContainer) {
+      throw new ValidationError('The archive root has no container. Provide targetContainer.');
+    }
+    if (!await contentExists(client, targetContainer)) {
+      throw new ValidationError(`Container ${targetContainer} does not exist. Provide an existing targetContainer.`);
+    }
+
+    let checkpoint = validatedParams.resume !== false && !validatedParams.dryRun
+      ? await readCheckpoint(checkpointPath)
+      : null;
+    if (checkpoint && (
+      checkpoint.exportedAt !== archive.manifest.exportedAt ||
+      checkpoint.rootKey !== archive.manifest.source.rootKey
+    )) {
+      throw new ValidationError(`Checkpoint ${checkpointPath} belongs to a different archive. Delete it or pass resume: false.`);
+    }
+    if (checkpoint && (checkpoint.targetContainer !== targetContainer || checkpoint.conflictStrategy !== conflictStrategy)) {
+      throw new ValidationError(
+        `Checkpoint ${checkpointPath} was written for container ${checkpoint.targetContainer} with conflictStrategy ` +
+        `"${checkpoint.conflictStrategy}". Use the same settings to resume, or pass resume: false to start over.`
+      );
+    }
+    const resumed = checkpoint !== null;
+
+    // 1. Plan: what happens to each item and which key it gets in the target
+    const keyMap = new Map<string, string>(Object.entries(checkpoint?.keyMap || {}));
+    const actions = new Map<string, ImportAction>();
+    for (const item of items) {
+      const sourceKey = normalizeContentKey(item.key);
+      if (checkpoint?.completed[sourceKey]) {
+        actions.set(sourceKey, checkpoint.completed[sourceKey].action);
+        continue;
+      }
+      // Partly written by an earlier run: the content exists now, so keep the original plan
+      const partial = checkpoint?.partial?.[sourceKey];
+      if (partial) {
+        actions.set(sourceKey, partial.action);
+        continue;
+      }
+      // A key generated by an earlier, interrupted run is reused
+      if (keyMap.has(sourceKey) && keyMap.get(sourceKey) !== sourceKey) {
+        actions.set(sourceKey, 'create-new');
+        continue;
+      }
+      const exists = await contentExists(client, sourceKey);
+      const action: ImportAction = !exists ? 'create'
+        : conflictStrategy === 'overwrite' ? 'overwrite'
+          : conflictStrategy === 'create-new' ? 'create-new'
+            : 'skip';
+      actions.set(sourceKey, action);
+      if (!keyMap.has(sourceKey)) {
+        keyMap.set(sourceKey, action === 'create-new' ? randomUUID().replace(/-/g, '') : sourceKey);
+      }
+    }
+
+    const { missing: missingTypes, warnings: contentTypeWarnings } = await checkContentTypes(client, archive);
+
+    // References leaving the archive must already exist in the target
+    const missingReferences = { assets: [] as string[], content: [] as string[] };
+    for (const key of archive.manifest.assets) {
+      if (!archivedKeys.has(key) && !await contentExists(client, key)) missingReferences.assets.push(key);
+    }
+    for (const key of archive.manifest.externalReferences) {
+      if (!archivedKeys.has(key) && !await contentExists(client, key)) missingReferences.content.push(key);
+    }
+
+    checkpoint = checkpoint || {
+      archivePath,
+      exportedAt: archive.manifest.exportedAt,
+      rootKey: archive.manifest.source.rootKey,
+      targetContainer,
+      conflictStrategy,
+      keyMap: {},
+      completed: {},
+      updatedAt: ''
+    };
+    checkpoint.keyMap = Object.fromEntries(keyMap);
+    checkpoint.partial = checkpoint.partial || {};
+    const partial = checkpoint.partial;
+    if (!validatedParams.dryRun) {
+      await writeCheckpoint(checkpointPath, checkpoint);
+    }
+
+    logger.info(`Importing ${items.length} item(s) from ${archivePath}`, {
+      conflictStrategy,
+      resumed,
+      dryRun: validatedParams.dryRun
+    });
+
+    // 2. Write, parent-first
+    const results: ImportResult[] = [];
+    const failed = new Set<string>();
+    let done = 0;
+
+    for (const item of items) {
+      const sourceKey = normalizeContentKey(item.key);
+      const targetKey = keyMap.get(sourceKey)!;
+      const action = actions.get(sourceKey)!;
+      const parentKey = item.parentKey && archivedKeys.has(normalizeContentKey(item.parentKey))
+        ? normalizeContentKey(item.parentKey)
+        : undefined;
+      const container = parentKey ? keyMap.get(parentKey)! : targetContainer;
+      const locales = Object.keys(item.locales)
+        .filter(locale => !validatedParams.locales?.length || validatedParams.locales.includes(locale));
+
+      const result: ImportResult = { sourceKey, targetKey, action, status: 'done', locales };
+
+      if (checkpoint.completed[sourceKey]) {
+        result.status = 'already-imported';
+      } else if (parentKey && failed.has(parentKey)) {
+        failed.add(sourceKey);
+        result.status = 'skipped';
+        result.reason = 'Parent item was not imported';
+      } else if (missingTypes.has(item.contentType)) {
+        failed.add(sourceKey);
+        result.status = 'failed';
+        result.error = `Content type ${item.contentType} does not exist in the target`;
+      } else if (locales.length === 0) {
+        result.status = 'skipped';
+        result.reason = 'No matching locales in the archive';
+      } else if (action === 'skip') {
+        result.status = 'skipped';
+        result.reason = 'Already exists in the target (conflictStrategy: skip)';
+      } else if (validatedParams.dryRun) {
+        result.status = 'planned';
+      } else {
+        const written = partial[sourceKey]?.locales || [];
+        try {
+          await writeItem(client, item, action, targetKey, container, locales, keyMap, written, async locale => {
+            written.push(locale);
+            partial[sourceKey] = { action, locales: written };
+            await writeCheckpoint(checkpointPath, checkpoint!);
+          });
+          delete partial[sourceKey];
+        } catch (error) {
+          failed.add(sourceKey);
+          result.status = 'failed';
+          result.error = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to import content ${sourceKey}`, error);
+        }
+      }
+
+      if (!validatedParams.dryRun && (result.status === 'done' || (result.status === 'skipped' && action === 'skip'))) {
+        checkpoint.completed[sourceKey] = result;
+        await writeCheckpoint(checkpointPath, checkpoint);
+      }
+
+      results.push(result);
+      done++;
+      await progress?.(done, items.length, `${sourceKey}: ${result.status}`);
+    }
+
+    const count = (status: ImportResult['status']) => results.filter(result => result.status === status).length;
+    const complete = failed.size === 0;
+    if (complete && !validatedParams.dryRun) {
+      await fs.rm(checkpointPath, { force: true });
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: complete,
+          dryRun: validatedParams.dryRun || undefined,
+          archive: {
+            path: archivePath,
+            exportedAt: archive.manifest.exportedAt,
+            source: archive.manifest.source,
+            items: items.length
+          },
+          targetContainer,
+          conflictStrategy,
+          summary: {
+            imported: count('done'),
+            planned: count('planned') || undefined,
+            alreadyImported: count('already-imported') || undefined,
+            skipped: count('skipped'),
+            failed: count('failed')
+          },
+          results,
+          rekeyed: Object.fromEntries(Array.from(keyMap.entries()).filter(([source, target]) => source !== target)),
+          contentTypeWarnings: contentTypeWarnings.length > 0 ? contentTypeWarnings : undefined,
+          missingReferences: missingReferences.assets.length + missingReferences.content.length > 0
+            ? missingReferences
+            : undefined,
+          checkpoint: validatedParams.dryRun ? undefined : {
+            path: checkpointPath,
+            resumed,
+            kept: !complete
+          },
+          message: validatedParams.dryRun
+            ? 'Dry run - nothing was written.'
+            : complete
+              ? `Imported ${count('done')} item(s) as drafts`
+              : `${count('failed')} item(s) failed. Fix the cause and run the import again to resume from the checkpoint.`
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,326 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { getCMAConfig, resolveEnvironment, type Config } from '../../config.js';
+import { handleError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput } from '../../utils/validation.js';
+import { collectContentReferences, normalizeContentKey, remapContentReferences } from './references.js';
+import { fetchContentSnapshot, walkContentTree, type ContentSnapshot } from './tree.js';
+
+const PromoteTreeSchema = z.object({
+  rootKey: z.string().min(1),
+  targetEnvironment: z.string().min(1),
+  sourceEnvironment: z.string().optional(),
+  targetContainer: z.string().optional(),
+  locales: z.array(z.string()).optional(),
+  maxDepth: z.number().int().min(0).max(20).optional().default(10),
+  maxItems: z.number().int().min(1).max(1000).optional().default(200),
+  keyStrategy: z.enum(['preserve', 'generate']).optional().default('preserve'),
+  dryRun: z.boolean().optional().default(true)
+});
+
+type PromoteAction = 'create' | 'create-locale' | 'update' | 'unchanged' | 'skipped';
+
+interface PropertyChange {
+  property: string;
+  change: 'added' | 'removed' | 'modified';
+  from?: string;
+  to?: string;
+}
+
+interface PromoteOperation {
+  sourceKey: string;
+  targetKey: string;
+  locale?: string;
+  action: PromoteAction;
+  contentType?: string;
+  displayName?: string;
+  container?: string;
+  changes?: PropertyChange[];
+  warning?: string;
+  error?: string;
+}
+
+const PREVIEW_LENGTH = 200;
+
+function preview(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const text = JSON.stringify(value);
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+function diffProperties(before: Record<string, any>, after: Record<string, any>): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const property of names) {
+    const inBefore = property in before;
+    const inAfter = property in after;
+    if (!inBefore) {
+      changes.push({ property, change: 'added', to: preview(after[property]) });
+    } else if (!inAfter) {
+      changes.push({ property, change: 'removed', from: preview(before[property]) });
+    } else if (JSON.stringify(before[property]) !== JSON.stringify(after[property])) {
+      changes.push({
+        property,
+        change: 'modified',
+        from: preview(before[property]),
+        to: preview(after[property])
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Copy a content subtree from one environment to another.
+ *
+ * Items are processed parent-first. Content keys are either preserved or
+ * regenerated, and references between items of the subtree are rewritten to
+ * the target keys. Existing target items get a new draft version rather than
+ * having their published version overwritten. Defaults to a dry run that only
+ * reports the planned operations and property diffs.
+ */
+export async function executeContentPromoteTree(
+  config: Config,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(PromoteTreeSchema, params);
+    const logger = getLogger();
+    const dryRun = validatedParams.dryRun !== false;
+
+    const sourceConfig = resolveEnvironment(config, validatedParams.sourceEnvironment);
+    const targetConfig = resolveEnvironment(config, validatedParams.targetEnvironment);
+    const sourceName = sourceConfig.environment || 'default';
+    const targetName = targetConfig.environment || 'default';
+
+    if (sourceName === targetName) {
+      throw new ValidationError(
+        `Source and target environment are both "${sourceName}". Use content-copy to duplicate content within one environment.`
+      );
+    }
+
+    const source = new OptimizelyContentClient(getCMAConfig(sourceConfig));
+    const target = new OptimizelyContentClient(getCMAConfig(targetConfig));
+
+    const { nodes, truncated } = await walkContentTree(source, validatedParams.rootKey, {
+      maxDepth: validatedParams.maxDepth,
+      maxItems: validatedParams.maxItems
+    });
+
+    // Decide every target key up front so references can be rewritten in any order
+    const keyMap = new Map<string, string>();
+    for (const node of nodes) {
+      const targetKey = validatedParams.keyStrategy === 'generate'
+        ? randomUUID().replace(/-/g, '')
+        : normalizeContentKey(node.key);
+      keyMap.set(normalizeContentKey(node.key), targetKey);
+    }
+
+    const rootContainer = validatedParams.targetContainer || nodes[0].metadata.container;
+    if (!rootContainer) {
+      throw new ValidationError('The source root has no container. Provide targetContainer.');
+    }
+    if (!await contentExists(target, rootContainer)) {
+      throw new ValidationError(
+        `Container ${rootContainer} does not exist in environment "${targetName}". Provide an existing targetContainer.`
+      );
+    }
+
+    logger.info(`Promoting ${nodes.length} content item(s) from ${sourceName} to ${targetName}`, {
+      rootKey: validatedParams.rootKey,
+      dryRun
+    });
+
+    const treeKeys = new Set(keyMap.keys());
+    const externalReferences = new Map<string, boolean>();
+    const failedKeys = new Set<string>();
+    const operations: PromoteOperation[] = [];
+
+    for (const node of nodes) {
+      const sourceKey = normalizeContentKey(node.key);
+      const targetKey = keyMap.get(sourceKey)!;
+
+      if (node.parentKey && failedKeys.has(normalizeContentKey(node.parentKey))) {
+        failedKeys.add(sourceKey);
+        operations.push({ sourceKey, targetKey, action: 'skipped', warning: 'Parent item was not promoted' });
+        continue;
+      }
+
+      const container = node.parentKey ? keyMap.get(normalizeContentKey(node.parentKey))! : rootContainer;
+
+      try {
+        const sourceSnapshot = await fetchContentSnapshot(source, node.key, validatedParams.locales);
+        if (!sourceSnapshot || Object.keys(sourceSnapshot.locales).length === 0) {
+          // Its children would be written under a container the target does not have
+          failedKeys.add(sourceKey);
+          operations.push({ sourceKey, targetKey, action: 'skipped', warning: 'No matching locale versions in source' });
+          continue;
+        }
+
+        for (const reference of collectContentReferences(sourceSnapshot.locales)) {
+          if (!treeKeys.has(reference) && !externalReferences.has(reference)) {
+            externalReferences.set(reference, await contentExists(target, reference));
+          }
+        }
+
+        const targetSnapshot = validatedParams.keyStrategy === 'preserve'
+          ? await fetchContentSnapshot(target, targetKey, validatedParams.locales)
+          : null;
+
+        operations.push(...await promoteItem({
+          target,
+          sourceSnapshot,
+          targetSnapshot,
+          targetKey,
+          container,
+          keyMap,
+          dryRun
+        }));
+      } catch (error) {
+        failedKeys.add(sourceKey);
+        logger.error(`Failed to promote content ${sourceKey}`, error);
+        operations.push({
+          sourceKey,
+          targetKey,
+          action: 'skipped',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const summary: Record<PromoteAction, number> = {
+      create: 0,
+      'create-locale': 0,
+      update: 0,
+      unchanged: 0,
+      skipped: 0
+    };
+    operations.forEach(operation => summary[operation.action]++);
+
+    const missingReferences = Array.from(externalReferences.entries())
+      .filter(([, exists]) => !exists)
+      .map(([key]) => key);
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: failedKeys.size === 0,
+          dryRun,
+          sourceEnvironment: sourceName,
+          targetEnvironment: targetName,
+          rootKey: validatedParams.rootKey,
+          targetContainer: rootContainer,
+          itemCount: nodes.length,
+          truncated,
+          summary,
+          keyMap: Object.fromEntries(keyMap),
+          operations,
+          externalReferences: {
+            total: externalReferences.size,
+            missingInTarget: missingReferences
+          },
+          message: dryRun
+            ? 'Dry run only - nothing was written. Re-run with dryRun: false to apply these operations.'
+            : `Promoted ${summary.create + summary['create-locale'] + summary.update} change(s) to ${targetName}`
+        }, null, 2)
+      }]
+    };
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+async function promoteItem(options: {
+  target: OptimizelyContentClient;
+  sourceSnapshot: ContentSnapshot;
+  targetSnapshot: ContentSnapshot | null;
+  targetKey: string;
+  container: string;
+  keyMap: Map<string, string>;
+  dryRun: boolean;
+}): Promise<PromoteOperation[]> {
+  const { target, sourceSnapshot, targetSnapshot, targetKey, container, keyMap, dryRun } = options;
+  const operations: PromoteOperation[] = [];
+  const sourceKey = normalizeContentKey(sourceSnapshot.key);
+  let exists = targetSnapshot !== null;
+
+  const containerWarning = targetSnapshot?.container &&
+    normalizeContentKey(targetSnapshot.container) !== normalizeContentKey(container)
+    ? `Target item lives under ${targetSnapshot.container}; it will not be moved`
+    : undefined;
+
+  for (const [locale, sourceLocale] of Object.entries(sourceSnapshot.locales)) {
+    const properties = remapContentReferences(sourceLocale.properties, keyMap);
+    const displayName = sourceLocale.displayName || sourceSnapshot.displayName;
+    const targetLocale = targetSnapshot?.locales[locale];
+
+    const operation: PromoteOperation = {
+      sourceKey,
+      targetKey,
+      locale,
+      action: 'create',
+      contentType: sourceSnapshot.contentType,
+      displayName,
+      container,
+      warning: containerWarning
+    };
+
+    if (!exists) {
+      operation.changes = diffProperties({}, properties);
+      if (!dryRun) {
+        await target.post('/experimental/content', {
+          key: targetKey,
+          contentType: sourceSnapshot.contentType,
+          container,
+          displayName,
+          locale,
+          status: 'draft',
+          properties
+        });
+      }
+      exists = true;
+    } else {
+      operation.changes = diffProperties(targetLocale?.properties || {}, properties);
+      if (!targetLocale) {
+        operation.action = 'create-locale';
+      } else if (operation.changes.length === 0 && targetLocale.displayName === displayName) {
+        operation.action = 'unchanged';
+      } else {
+        operation.action = 'update';
+      }
+
+      if (!dryRun && operation.action !== 'unchanged') {
+        // A new draft version keeps whatever is published in the target intact
+        await target.post(`/experimental/content/${targetKey}/versions?locale=${encodeURIComponent(locale)}`, {
+          displayName,
+          status: 'draft',
+          properties
+        });
+      }
+    }
+
+    operations.push(operation);
+  }
+
+  return operations;
+}
+
+async function contentExists(client: OptimizelyContentClient, key: string): Promise<boolean> {
+  try {
+    await client.get(`/experimental/content/${key}`);
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
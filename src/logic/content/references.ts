@@ -0,0 +1,78 @@
+/**
+ * Content reference helpers
+ *
+ * CMA property values point at other content in a few shapes: bare content keys,
+ * cms://content/{key} URLs (content references, content areas, links inside rich
+ * text) and ContentReference objects carrying a guidValue. These helpers find
+ * those keys anywhere in a property tree and rewrite them, so content copied
+ * between environments or re-keyed on import keeps pointing at the right items.
+ */
+
+const KEY_SOURCE = '[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}';
+const BARE_KEY = new RegExp(`^${KEY_SOURCE}$`, 'i');
+const CMS_URL_KEY = new RegExp(`(cms://content/)(${KEY_SOURCE})`, 'gi');
+
+/**
+ * Content keys are compared without dashes and in lowercase, which is the
+ * format the CMA returns them in.
+ */
+export function normalizeContentKey(key: string): string {
+  return key.replace(/-/g, '').toLowerCase();
+}
+
+export function isContentKey(value: unknown): boolean {
+  return typeof value === 'string' && BARE_KEY.test(value);
+}
+
+/**
+ * Collect every content key referenced from a property value (normalized).
+ */
+export function collectContentReferences(value: unknown, found: Set<string> = new Set()): Set<string> {
+  if (typeof value === 'string') {
+    if (BARE_KEY.test(value)) {
+      found.add(normalizeContentKey(value));
+    } else {
+      for (const match of value.matchAll(CMS_URL_KEY)) {
+        found.add(normalizeContentKey(match[2]));
+      }
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectContentReferences(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectContentReferences(item, found));
+  }
+  return found;
+}
+
+/**
+ * Return a copy of the value with referenced keys replaced according to keyMap.
+ * keyMap is keyed by normalized source key; keys not in the map are left alone.
+ */
+export function remapContentReferences<T>(value: T, keyMap: Map<string, string>): T {
+  if (keyMap.size === 0) {
+    return value;
+  }
+
+  const remap = (input: unknown): unknown => {
+    if (typeof input === 'string') {
+      if (BARE_KEY.test(input)) {
+        return keyMap.get(normalizeContentKey(input)) ?? input;
+      }
+      return input.replace(CMS_URL_KEY, (whole: string, prefix: string, key: string) => {
+        const mapped = keyMap.get(normalizeContentKey(key));
+        return mapped ? `${prefix}${mapped}` : whole;
+      });
+    }
+    if (Array.isArray(input)) {
+      return input.map(remap);
+    }
+    if (input && typeof input === 'object') {
+      return Object.fromEntries(
+        Object.entries(input).map(([name, item]) => [name, remap(item)])
+      );
+    }
+    return input;
+  };
+
+  return remap(value) as T;
+}
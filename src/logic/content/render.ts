@@ -0,0 +1,260 @@
+/**
+ * Content rendering for LLM consumption
+ *
+ * Content-returning tools answer with raw JSON by default. With
+ * format "markdown" or "text" the item is rendered as a readable document
+ * instead: rich text becomes Markdown, content areas become nested sections
+ * and long values are cut off with a pointer to the full value.
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { htmlToMarkdown } from './document.js';
+
+export type ContentOutputFormat = 'json' | 'markdown' | 'text';
+
+export const DEFAULT_MAX_FIELD_LENGTH = 2000;
+const MAX_NESTING = 4;
+
+// Shared by the tools that accept an output format
+export const ContentOutputSchema = z.object({
+  format: z.enum(['json', 'markdown', 'text']).optional().default('json'),
+  maxFieldLength: z.number().int().min(100).optional()
+});
+
+export const contentOutputProperties = {
+  format: {
+    type: 'string',
+    enum: ['json', 'markdown', 'text'],
+    description: 'json: raw response; markdown/text: readable rendering with rich text as Markdown, content areas as sections and long fields truncated (uses far fewer tokens)',
+    default: 'json'
+  },
+  maxFieldLength: {
+    type: 'integer',
+    description: `Characters shown per field in markdown/text output before it is truncated (default ${DEFAULT_MAX_FIELD_LENGTH})`
+  }
+};
+
+export interface RenderOptions {
+  format: ContentOutputFormat;
+  maxFieldLength?: number;
+  // How to fetch a truncated value in full, e.g. 'graph-get-content {"id": "..."}'
+  fullValueHint?: string;
+}
+
+// Bookkeeping fields that say nothing about the content itself
+const SKIPPED_FIELDS = new Set([
+  '_metadata', '_id', '_score', '_track', '_deleted', '_modified', '_fulltext', '_json', '__typename',
+  'properties', 'contentLink', 'contentType', 'key', 'displayName', 'name', 'locale', 'status',
+  'container', 'created', 'createdBy', 'lastModified', 'lastModifiedBy', 'published', 'routeSegment'
+]);
+
+const REFERENCE_FIELDS = new Set([
+  '_metadata', '__typename', 'url', 'key', 'text', 'title', 'target', 'displayName', 'name',
+  'contentLink', 'reference', 'guidValue', 'id', 'displayOption'
+]);
+
+const HTML_PATTERN = /<\/?(p|div|h[1-6]|ul|ol|li|strong|em|a|br|table|img|span|blockquote)\b/i;
+
+function isContentItem(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    (!!value._metadata || !!value.__typename || (!!value.contentType && (!!value.properties || !!value.key)));
+}
+
+// A bare reference (content link or URL) rather than inline content
+function asReference(value: any): { label: string; target?: string } | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const metadata = value._metadata || {};
+  const urlValue = value.url || metadata.url;
+  const url = typeof urlValue === 'string' ? urlValue
+    : urlValue?.hierarchical || urlValue?.default || urlValue?.base;
+  const key = value.key || metadata.key || value.contentLink?.key || value.guidValue ||
+    (typeof value.reference === 'string' ? value.reference : value.reference?.key);
+  const label = value.text || value.title || value.displayName || metadata.displayName || value.name || url || key;
+  const otherFields = Object.keys(value).filter(field => !REFERENCE_FIELDS.has(field));
+  if (!label || otherFields.length > 0 || (!url && !key)) return null;
+  return { label: String(label), target: url || (key && key !== label ? `content ${key}` : undefined) };
+}
+
+class ContentRenderer {
+  private readonly lines: string[] = [];
+  private readonly maxFieldLength: number;
+  private readonly markdown: boolean;
+
+  constructor(private readonly options: RenderOptions) {
+    this.maxFieldLength = options.maxFieldLength ?? DEFAULT_MAX_FIELD_LENGTH;
+    this.markdown = options.format === 'markdown';
+  }
+
+  render(content: any): string {
+    this.item(content, 1, '');
+    return this.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+  }
+
+  private heading(level: number, text: string): void {
+    if (this.markdown) {
+      this.lines.push('', `${'#'.repeat(Math.min(level, 6))} ${text}`, '');
+    } else {
+      this.lines.push('', level <= 1 ? text.toUpperCase() : `${'  '.repeat(level - 2)}${text}`, '');
+    }
+  }
+
+  private field(name: string, value: string): void {
+    this.lines.push(this.markdown ? `**${name}:** ${value}` : `${name}: ${value}`);
+  }
+
+  private link(label: string, target?: string): string {
+    if (!target || target === label) return label;
+    return this.markdown && !target.startsWith('content ') ? `[${label}](${target})` : `${label} (${target})`;
+  }
+
+  private text(value: string, path: string): string {
+    let text = HTML_PATTERN.test(value) ? htmlToMarkdown(value) : value;
+    if (!this.markdown) {
+      text = text
+        .replace(/^#{1,6} /gm, '')
+        .replace(/\*\*([^*]+)\*\*/g, '$1')
+        .replace(/!?\[([^\]]*)\]\(([^)]+)\)/g, '$1 ($2)')
+        .replace(/`/g, '');
+    }
+
+    if (text.length <= this.maxFieldLength) {
+      return text;
+    }
+    const hint = this.options.fullValueHint
+      ? `; fetch the full value with ${this.options.fullValueHint} (field ${path})`
+      : '';
+    return `${text.slice(0, this.maxFieldLength).trimEnd()}\n\n[… truncated: showing ${this.maxFieldLength} of ${text.length} characters${hint}]`;
+  }
+
+  private item(content: any, level: number, path: string): void {
+    const metadata = content?._metadata || {};
+    const title = metadata.displayName || content?.displayName || content?.name ||
+      content?.__typename || (Array.isArray(content?.contentType) ? content.contentType[0] : content?.contentType) || 'Content';
+    this.heading(level, String(title));
+
+    const types = metadata.types || content?.contentType;
+    const facts: [string, any][] = [
+      ['Type', Array.isArray(types) ? types[0] : types || content?.__typename],
+      ['Key', metadata.key || content?.key || content?.contentLink?.guidValue],
+      ['Locale', metadata.locale || content?.locale],
+      ['URL', metadata.url?.hierarchical || metadata.url?.default || content?.url?.hierarchical],
+      ['Status', metadata.status || content?.status],
+      ['Last modified', metadata.lastModified || content?.lastModified]
+    ];
+    for (const [name, value] of facts) {
+      if (value !== undefined && value !== null && value !== '' && level <= 1) {
+        this.field(name, String(value));
+      }
+    }
+    if (level > 1 && facts[0][1] && facts[0][1] !== title) {
+      this.lines.push(this.markdown ? `*${facts[0][1]}*` : `(${facts[0][1]})`);
+    }
+
+    const properties = content?.properties && typeof content.properties === 'object'
+      ? content.properties
+      : Object.fromEntries(Object.entries(content || {}).filter(([name]) => !SKIPPED_FIELDS.has(name)));
+    for (const [name, value] of Object.entries(properties)) {
+      this.value(name, value, level + 1, path ? `${path}.${name}` : name);
+    }
+  }
+
+  private value(name: string, value: any, level: number, path: string): void {
+    if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return;
+    }
+
+    if (typeof value === 'string') {
+      const text = this.text(value, path);
+      if (text.includes('\n') || text.length > 120) {
+        this.heading(level, name);
+        // Headings inside rich text go below the field's own heading
+        this.lines.push(this.markdown
+          ? text.replace(/^(#{1,6}) /gm, (_match, hashes: string) => `${'#'.repeat(Math.min(Math.max(hashes.length + level - 1, level + 1), 6))} `)
+          : text);
+      } else {
+        this.field(name, text);
+      }
+      return;
+    }
+
+    if (typeof value !== 'object') {
+      this.field(name, String(value));
+      return;
+    }
+
+    // Rich text from Graph: { html, json }
+    if (!Array.isArray(value) && typeof value.html === 'string') {
+      this.value(name, value.html, level, path);
+      return;
+    }
+
+    const reference = asReference(value);
+    if (reference) {
+      this.field(name, this.link(reference.label, reference.target));
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      if (value.every(entry => entry === null || typeof entry !== 'object')) {
+        this.field(name, value.filter(entry => entry !== null).join(', '));
+        return;
+      }
+      // Content areas and lists of blocks become nested sections
+      this.heading(level, name);
+      value.forEach((entry, index) => this.entry(entry, level + 1, `${path}[${index}]`));
+      return;
+    }
+
+    if (level - 1 > MAX_NESTING) {
+      this.field(name, '[nested value omitted]');
+      return;
+    }
+    if (isContentItem(value)) {
+      this.item(value, level, path);
+      return;
+    }
+    this.heading(level, name);
+    for (const [childName, child] of Object.entries(value)) {
+      this.value(childName, child, level + 1, `${path}.${childName}`);
+    }
+  }
+
+  private entry(entry: any, level: number, path: string): void {
+    // Content area items wrap the content they display
+    const inner = entry?.contentLink?.expanded || entry?.content || entry?.inlineBlock || entry;
+    const reference = asReference(inner);
+    if (reference) {
+      this.lines.push(`- ${this.link(reference.label, reference.target)}`);
+    } else if (level - 1 > MAX_NESTING) {
+      this.lines.push('- [nested content omitted]');
+    } else if (isContentItem(inner)) {
+      this.item(inner, level, path);
+    } else if (typeof inner === 'object' && inner !== null) {
+      for (const [childName, child] of Object.entries(inner)) {
+        this.value(childName, child, level, `${path}.${childName}`);
+      }
+    } else {
+      this.lines.push(`- ${String(inner)}`);
+    }
+  }
+}
+
+export function renderContent(content: any, options: RenderOptions): string {
+  return new ContentRenderer(options).render(content);
+}
+
+/**
+ * Tool result for a content item in the requested format; JSON unless
+ * markdown or text was asked for.
+ */
+export function formatContentResult(content: any, options: RenderOptions): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: options.format === 'json'
+        ? JSON.stringify(content, null, 2)
+        : renderContent(content, options)
+    }]
+  };
+}
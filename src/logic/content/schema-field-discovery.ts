@@ -15,6 +15,8 @@ export interface SchemaField {
   displayName: string;
   description?: string;
   type: string;
+  // e.g. "html" for rich text (XhtmlString) properties
+  format?: string;
   required: boolean;
   metadata?: any;
 }
@@ -76,6 +78,7 @@ export class SchemaFieldDiscovery {
                 displayName: (fieldDef as any).displayName || fieldName,
                 description: (fieldDef as any).description,
                 type: (fieldDef as any).dataType || 'string',
+                format: (fieldDef as any).format,
                 required: (fieldDef as any).required || false,
                 metadata: (fieldDef as any).settings
               };
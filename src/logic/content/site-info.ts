@@ -1,58 +1,263 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { OptimizelyGraphClient } from '../../clients/graph-client.js';
+import { AdapterRegistry } from '../../adapters/registry.js';
+import { getCMAConfig, getGraphConfig, type Config } from '../../config.js';
 import { CMAConfig } from '../../types/config.js';
 import { handleError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput, toGraphLocale } from '../../utils/validation.js';
 
+const SiteInfoSchema = z.object({
+  locale: z.string().optional(),
+  maxFolders: z.number().int().min(1).max(1000).optional().default(200),
+  includePages: z.boolean().optional().default(true)
+});
+
+// Base types as they appear in Graph _metadata.types
+const FOLDER_TYPES = ['_Folder'];
+const BLOCK_TYPES = ['_Component', '_Block'];
+const MEDIA_TYPES = ['_Media', '_Image', '_Video'];
+const PAGE_TYPES = ['_Page', '_Experience'];
+
+const STRUCTURE_FIELDS = `
+  _metadata {
+    key
+    locale
+    displayName
+    types
+    container
+    url {
+      base
+      hierarchical
+    }
+  }
+`;
+
+type ContainerUse = 'pages' | 'blocks' | 'media';
+
+interface SiteTreeNode {
+  key: string;
+  displayName: string;
+  contentType?: string;
+  kind: 'start-page' | 'page' | 'folder';
+  url?: string;
+  holds?: ContainerUse[];
+  allowedChildTypes?: string[];
+  children: SiteTreeNode[];
+}
+
+// Used when Graph is not configured or not reachable
+const MANUAL_GUIDANCE = {
+  message: "Container GUID Required for Content Creation",
+  explanation: "The Optimizely Content Management API requires a valid container GUID when creating content.",
+  instructions: [
+    "1. Log in to your Optimizely CMS admin interface",
+    "2. Navigate to the content tree where you want to create content",
+    "3. Right-click on a folder/page and select 'Properties' or 'Settings'",
+    "4. Look for the content GUID in the properties panel",
+    "5. Use this GUID as the 'container' parameter when creating content"
+  ],
+  alternativeApproaches: [
+    "Use the GraphQL API (graph_search, graph_get_by_id) to find existing content and note their GUIDs",
+    "Contact your Optimizely administrator for the root container GUID",
+    "Check your Optimizely documentation for site-specific container GUIDs"
+  ]
+};
+
+async function queryStructure(
+  client: OptimizelyGraphClient,
+  where: Record<string, any>,
+  limit: number,
+  locale?: string
+): Promise<any[]> {
+  const localeArgument = locale ? `locale: [${toGraphLocale(locale)}]` : '';
+  const query = `
+    query SiteStructure($where: _ContentWhereInput, $limit: Int!) {
+      _Content(where: $where, limit: $limit ${localeArgument}) {
+        items {
+          ${STRUCTURE_FIELDS}
+        }
+      }
+    }
+  `;
+  const result = await client.query<any>(query, { where, limit }, { operationName: 'SiteStructure' });
+  return (result?._Content?.items || [])
+    .map((item: any) => item?._metadata)
+    .filter((metadata: any) => metadata?.key);
+}
+
+async function queryLocales(client: OptimizelyGraphClient): Promise<string[]> {
+  const result = await client.query<any>(`
+    query SiteLocales {
+      _Content(limit: 0) {
+        facets {
+          _metadata {
+            locale(limit: 50) {
+              name
+              count
+            }
+          }
+        }
+      }
+    }
+  `, {}, { operationName: 'SiteLocales' });
+  return (result?._Content?.facets?._metadata?.locale || []).map((facet: any) => facet.name).filter(Boolean);
+}
+
+// First type that is not a base type (e.g. "StandardPage" rather than "_Page")
+function contentTypeOf(metadata: any): string | undefined {
+  const types: string[] = metadata.types || [];
+  return types.find(type => !type.startsWith('_')) || types[0];
+}
+
+/**
+ * Discover sites, start pages and content folders through Optimizely Graph and
+ * return them as a tree, so a container can be picked without the CMS UI.
+ *
+ * Start pages are the items at "/" or "/{locale}/"; folders are tagged with
+ * what they hold (pages, blocks, media) from a sample of their contents.
+ */
 export async function executeGetSiteInfo(
-  config: CMAConfig,
+  config: Config,
   params: any
 ): Promise<CallToolResult> {
   try {
-    const client = new OptimizelyContentClient(config);
-    
-    // Provide guidance on finding container GUIDs
-    const guidance = {
-      message: "Container GUID Required for Content Creation",
-      explanation: "The Optimizely Content Management API requires a valid container GUID when creating content.",
-      instructions: [
-        "1. Log in to your Optimizely CMS admin interface",
-        "2. Navigate to the content tree where you want to create content",
-        "3. Right-click on a folder/page and select 'Properties' or 'Settings'",
-        "4. Look for the content GUID in the properties panel",
-        "5. Use this GUID as the 'container' parameter when creating content"
-      ],
-      example: {
-        contentCreation: {
-          tool: "content-create",
-          parameters: {
-            contentType: "StandardPage",
-            name: "My New Page",
-            displayName: "My New Page",
-            container: "12345678-1234-1234-1234-123456789012",
-            language: "en",
-            properties: {
-              MainBody: "<p>Page content here</p>",
-              Title: "My Page Title"
-            }
-          }
+    const validatedParams = validateInput(SiteInfoSchema, params);
+    const maxFolders = validatedParams.maxFolders ?? 200;
+    const logger = getLogger();
+    const graph = new OptimizelyGraphClient(getGraphConfig(config));
+
+    let locales: string[];
+    try {
+      locales = validatedParams.locale ? [validatedParams.locale] : await queryLocales(graph);
+    } catch (error) {
+      logger.warn('Site discovery through Graph failed', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            discovered: false,
+            reason: `Optimizely Graph is not reachable: ${error instanceof Error ? error.message : String(error)}`,
+            ...MANUAL_GUIDANCE
+          }, null, 2)
+        }]
+      };
+    }
+    const locale = validatedParams.locale;
+
+    // 1. Start pages, grouped into sites by their base URL
+    const rootUrls = ['/', ...locales.map(name => `/${name.replace(/_/g, '-').toLowerCase()}/`), ...locales.map(name => `/${name}/`)];
+    const startPages = await queryStructure(
+      graph,
+      { _metadata: { url: { hierarchical: { in: Array.from(new Set(rootUrls)) } } } },
+      50,
+      locale
+    );
+
+    // 2. Folders, and where blocks, media and pages actually live
+    const [folders, blockItems, mediaItems] = await Promise.all([
+      queryStructure(graph, { _metadata: { types: { in: FOLDER_TYPES } } }, maxFolders, locale),
+      queryStructure(graph, { _metadata: { types: { in: BLOCK_TYPES } } }, 500, locale),
+      queryStructure(graph, { _metadata: { types: { in: MEDIA_TYPES } } }, 500, locale)
+    ]);
+
+    const startKeys = Array.from(new Set(startPages.map(page => page.key)));
+    const topPages = validatedParams.includePages !== false && startKeys.length > 0
+      ? await queryStructure(
+        graph,
+        { _and: [{ _metadata: { container: { in: startKeys } } }, { _metadata: { types: { in: PAGE_TYPES } } }] },
+        200,
+        locale
+      )
+      : [];
+
+    // Allowed child types come from the content type definitions (CMA)
+    const allowedChildren = new Map<string, string[]>();
+    try {
+      const adapter = AdapterRegistry.getInstance().getOptimizelyAdapter(getCMAConfig(config));
+      for (const type of await adapter.getContentTypes()) {
+        if (type.allowedChildren && type.allowedChildren.length > 0) {
+          allowedChildren.set(type.key, type.allowedChildren);
         }
-      },
-      alternativeApproaches: [
-        "Use the GraphQL API (graph_search, graph_get_by_id) to find existing content and note their GUIDs",
-        "Contact your Optimizely administrator for the root container GUID",
-        "Check your Optimizely documentation for site-specific container GUIDs"
-      ],
-      apiLimitations: [
-        "The preview3/experimental API does not support listing content via GET requests",
-        "Container discovery endpoints are not available in the current API version",
-        "Content creation requires explicit parent container specification"
-      ]
+      }
+    } catch (error) {
+      logger.debug('Content types unavailable; allowed child types omitted', error);
+    }
+
+    const holds = new Map<string, Set<ContainerUse>>();
+    const mark = (items: any[], use: ContainerUse) => items.forEach(item => {
+      if (!item.container) return;
+      const uses = holds.get(item.container) || new Set<ContainerUse>();
+      uses.add(use);
+      holds.set(item.container, uses);
+    });
+    mark(blockItems, 'blocks');
+    mark(mediaItems, 'media');
+    mark(topPages, 'pages');
+
+    // 3. Build the tree; one node per key (the first locale seen wins)
+    const nodes = new Map<string, { node: SiteTreeNode; container?: string }>();
+    const addNode = (metadata: any, kind: SiteTreeNode['kind']) => {
+      if (nodes.has(metadata.key)) return;
+      const contentType = contentTypeOf(metadata);
+      nodes.set(metadata.key, {
+        container: metadata.container || undefined,
+        node: {
+          key: metadata.key,
+          displayName: metadata.displayName,
+          contentType,
+          kind,
+          url: metadata.url?.hierarchical || undefined,
+          holds: holds.has(metadata.key) ? Array.from(holds.get(metadata.key)!) : undefined,
+          allowedChildTypes: contentType ? allowedChildren.get(contentType) : undefined,
+          children: []
+        }
+      });
     };
-    
+    startPages.forEach(page => addNode(page, 'start-page'));
+    folders.forEach(folder => addNode(folder, 'folder'));
+    topPages.forEach(page => addNode(page, 'page'));
+
+    const roots: SiteTreeNode[] = [];
+    for (const { node, container } of nodes.values()) {
+      const parent = container ? nodes.get(container) : undefined;
+      if (parent && parent.node !== node) {
+        parent.node.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    const sites = new Map<string, any[]>();
+    for (const page of startPages) {
+      const base = page.url?.base || 'unknown';
+      const entries = sites.get(base) || [];
+      entries.push({ key: page.key, displayName: page.displayName, locale: page.locale, url: page.url?.hierarchical, container: page.container });
+      sites.set(base, entries);
+    }
+
+    const containersFor = (use: ContainerUse) => Array.from(nodes.values())
+      .filter(({ node }) => node.holds?.includes(use))
+      .map(({ node }) => ({ key: node.key, displayName: node.displayName }));
+
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(guidance, null, 2)
+        text: JSON.stringify({
+          discovered: true,
+          locales,
+          sites: Array.from(sites.entries()).map(([baseUrl, pages]) => ({ baseUrl, startPages: pages })),
+          tree: roots,
+          suggestedContainers: {
+            pages: startKeys.map(key => ({ key, displayName: nodes.get(key)?.node.displayName })),
+            blocks: containersFor('blocks'),
+            media: containersFor('media')
+          },
+          truncated: folders.length >= maxFolders || undefined,
+          usage: 'Use a key from this tree as the "container" of content-create (pages under a start page or page, blocks and media in folders). allowedChildTypes lists the content types a container accepts when restricted.'
+        }, null, 2)
       }]
     };
   } catch (error) {
@@ -7,6 +7,7 @@ import { getLogger } from '../../utils/logger.js';
 import { z } from 'zod';
 import { validateInput, sanitizeInput } from '../../utils/validation.js';
 import { AdapterRegistry } from '../../adapters/registry.js';
+import { createDryRunResult } from './dry-run.js';
 
 const logger = getLogger();
 
@@ -22,7 +23,8 @@ const SmartCreateSchema = z.object({
   parentName: z.string().optional(),
   container: z.string().optional(),
   properties: z.record(z.any()).optional(),
-  language: z.string().optional().default('en')
+  language: z.string().optional().default('en'),
+  dryRun: z.boolean().optional().default(false)
 });
 
 async function findContentTypeMatch(
@@ -146,7 +148,7 @@ export async function executeSmartContentCreate(
     const validatedParams = validateInput(SmartCreateSchema, params);
     
     const graphClient = new OptimizelyGraphClient(graphConfig);
-    // Note: We'll use executeContentCreate for creation, so cmaClient is only for fallback
+    const cmaClient = new OptimizelyContentClient(cmaConfig);
     
     // Get the adapter for intelligent type discovery
     const registry = AdapterRegistry.getInstance();
@@ -276,6 +278,17 @@ export async function executeSmartContentCreate(
     };
     
     logger.info('Creating content', createRequest);
+
+    if (validatedParams.dryRun) {
+      return createDryRunResult(
+        cmaClient.describeRequest('/experimental/content', {
+          method: 'POST',
+          body: JSON.stringify(createRequest)
+        }),
+        {},
+        { resolvedContentType: contentType, resolvedContainer: containerGuid }
+      );
+    }
     
     try {
       const result = await cmaClient.post('/experimental/content', createRequest);
@@ -0,0 +1,170 @@
+/**
+ * Content tree traversal over the Content Management API
+ *
+ * Shared by the tools that work on whole subtrees (promotion between
+ * environments, export) rather than single items.
+ */
+
+import { OptimizelyContentClient } from '../../clients/cma-client.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+const CHILDREN_PAGE_SIZE = 100;
+
+export interface ContentLocaleSnapshot {
+  version?: string;
+  status?: string;
+  displayName?: string;
+  properties: Record<string, any>;
+}
+
+export interface ContentSnapshot {
+  key: string;
+  contentType: string;
+  container?: string;
+  displayName?: string;
+  locales: Record<string, ContentLocaleSnapshot>;
+}
+
+export interface ContentTreeNode {
+  key: string;
+  parentKey?: string;
+  depth: number;
+  metadata: any;
+}
+
+export interface WalkOptions {
+  maxDepth?: number;
+  maxItems?: number;
+}
+
+function firstContentType(contentType: unknown): string {
+  return Array.isArray(contentType) ? String(contentType[0] ?? '') : String(contentType ?? '');
+}
+
+/**
+ * List the direct children of a content item, following pagination.
+ */
+export async function listContentChildren(
+  client: OptimizelyContentClient,
+  key: string
+): Promise<any[]> {
+  const children: any[] = [];
+  let pageIndex = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await client.get<any>(`/experimental/content/${key}/items`, {
+      pageIndex: String(pageIndex),
+      pageSize: String(CHILDREN_PAGE_SIZE)
+    });
+    const items: any[] = Array.isArray(page) ? page : page?.items || [];
+    children.push(...items);
+
+    const total = typeof page?.totalItemCount === 'number' ? page.totalItemCount : undefined;
+    hasMore = items.length === CHILDREN_PAGE_SIZE && (total === undefined || children.length < total);
+    pageIndex++;
+  }
+
+  return children;
+}
+
+async function hasContentChildren(client: OptimizelyContentClient, key: string): Promise<boolean> {
+  const page = await client.get<any>(`/experimental/content/${key}/items`, { pageIndex: '0', pageSize: '1' });
+  const items: any[] = Array.isArray(page) ? page : page?.items || [];
+  return items.length > 0;
+}
+
+/**
+ * Walk a subtree breadth-first, so every parent comes before its children.
+ * truncated is set when maxItems is reached or an item at maxDepth has
+ * children that were not walked.
+ */
+export async function walkContentTree(
+  client: OptimizelyContentClient,
+  rootKey: string,
+  options: WalkOptions = {}
+): Promise<{ nodes: ContentTreeNode[]; truncated: boolean }> {
+  const maxDepth = options.maxDepth ?? 10;
+  const maxItems = options.maxItems ?? 500;
+
+  const root = await client.get<any>(`/experimental/content/${rootKey}`);
+  const nodes: ContentTreeNode[] = [{ key: root.key || rootKey, depth: 0, metadata: root }];
+  let truncated = false;
+  let depthLimited = false;
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.depth >= maxDepth) {
+      // One item with unwalked children is enough to know the tree is incomplete
+      depthLimited = depthLimited || await hasContentChildren(client, node.key);
+      continue;
+    }
+
+    const children = await listContentChildren(client, node.key);
+    for (const child of children) {
+      if (nodes.length >= maxItems) {
+        truncated = true;
+        break;
+      }
+      nodes.push({ key: child.key, parentKey: node.key, depth: node.depth + 1, metadata: child });
+    }
+    if (truncated) {
+      break;
+    }
+  }
+
+  return { nodes, truncated: truncated || depthLimited };
+}
+
+/**
+ * Load the latest version of an item in each requested locale (all locales by default).
+ * Returns null if the item does not exist.
+ */
+export async function fetchContentSnapshot(
+  client: OptimizelyContentClient,
+  key: string,
+  locales?: string[]
+): Promise<ContentSnapshot | null> {
+  let metadata: any;
+  try {
+    metadata = await client.get<any>(`/experimental/content/${key}`);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+
+  const available = Object.keys(metadata.locales || {});
+  const wanted = locales && locales.length > 0
+    ? locales.filter(locale => available.includes(locale))
+    : available;
+
+  const snapshot: ContentSnapshot = {
+    key: metadata.key || key,
+    contentType: firstContentType(metadata.contentType),
+    container: metadata.container,
+    displayName: metadata.displayName,
+    locales: {}
+  };
+
+  for (const locale of wanted) {
+    const versions = await client.get<any>(`/experimental/content/${key}/versions`, { locale });
+    const latest = versions?.items?.[0];
+    if (!latest) {
+      continue;
+    }
+    const version = await client.get<any>(
+      `/experimental/content/${key}/versions/${latest.version}`,
+      { locale }
+    );
+    snapshot.locales[locale] = {
+      version: latest.version,
+      status: version.status ?? latest.status,
+      displayName: version.displayName ?? metadata.locales?.[locale]?.displayName,
+      properties: version.properties || {}
+    };
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,332 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { OptimizelyContentClient, type RequestPreview } from '../../clients/cma-client.js';
+import { getCMAConfig, resolveEnvironment, type Config } from '../../config.js';
+import { getAuditLog, type AuditEntry } from '../../services/audit-log.js';
+import { handleError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { validateInput } from '../../utils/validation.js';
+
+const UndoSchema = z.object({
+  auditId: z.string().optional(),
+  operationId: z.string().optional(),
+  force: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false)
+}).refine(params => !!params.auditId !== !!params.operationId, {
+  message: 'Provide either auditId or operationId'
+});
+
+type UndoAction = 'restore-fields' | 'undelete' | 'delete-created' | 'delete-version';
+
+interface UndoStep {
+  auditId: string;
+  tool?: string;
+  action?: UndoAction;
+  path: string;
+  request?: RequestInit;
+  conflicts: string[];
+  unsupported?: string;
+}
+
+type JsonPath = string[];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getAtPath(value: any, path: JsonPath): unknown {
+  return path.reduce((current, segment) => (current == null ? undefined : current[segment]), value);
+}
+
+function setAtPath(target: Record<string, any>, path: JsonPath, value: unknown): void {
+  let current = target;
+  path.slice(0, -1).forEach(segment => {
+    current[segment] = isPlainObject(current[segment]) ? current[segment] : {};
+    current = current[segment];
+  });
+  current[path[path.length - 1]] = value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * The fields a write changed and the value it set for each of them.
+ * Handles merge-patch objects and JSON Patch operation arrays.
+ */
+function changedFields(requestBody: unknown): { path: JsonPath; value: unknown }[] {
+  if (Array.isArray(requestBody)) {
+    return requestBody
+      .filter(operation => typeof operation?.path === 'string')
+      .map(operation => ({
+        path: operation.path.split('/').filter(Boolean),
+        value: operation.op === 'remove' ? undefined : operation.value
+      }));
+  }
+
+  const fields: { path: JsonPath; value: unknown }[] = [];
+  const walk = (value: unknown, path: JsonPath) => {
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.entries(value).forEach(([key, item]) => walk(item, [...path, key]));
+    } else {
+      fields.push({ path, value });
+    }
+  };
+  walk(requestBody, []);
+  return fields;
+}
+
+function contentKeyFromEntry(entry: AuditEntry): string | undefined {
+  const afterKey = isPlainObject(entry.after) ? entry.after.key : undefined;
+  return typeof afterKey === 'string' ? afterKey : entry.contentKeys[0];
+}
+
+async function getOrNull(client: OptimizelyContentClient, path: string): Promise<any | null> {
+  try {
+    return await client.get<any>(path);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function planUndo(client: OptimizelyContentClient, entry: AuditEntry): Promise<UndoStep> {
+  const step: UndoStep = { auditId: entry.id, tool: entry.tool, path: entry.path, conflicts: [] };
+  const key = contentKeyFromEntry(entry);
+
+  if (entry.outcome !== 'success') {
+    step.unsupported = 'The original write failed, so there is nothing to undo';
+    return step;
+  }
+
+  // Property and metadata changes (content-update, content-patch, content-move)
+  if (entry.method === 'PATCH') {
+    if (!isPlainObject(entry.before)) {
+      step.unsupported = 'No snapshot of the previous state was recorded for this write';
+      return step;
+    }
+    if (entry.before.truncated === true) {
+      // Only a preview of large content is logged; restoring from it would null every field
+      step.unsupported = 'The snapshot of the previous state was too large to record in full';
+      return step;
+    }
+
+    const current = await getOrNull(client, entry.path);
+    if (!current) {
+      step.unsupported = 'The content no longer exists';
+      return step;
+    }
+
+    const restore: Record<string, any> = {};
+    for (const field of changedFields(entry.requestBody)) {
+      const previous = getAtPath(entry.before, field.path);
+      // merge-patch removes a field when it is set to null
+      setAtPath(restore, field.path, previous === undefined ? null : previous);
+
+      const now = getAtPath(current, field.path);
+      if (!sameValue(now, field.value)) {
+        step.conflicts.push(`${field.path.join('.')} was changed after this write`);
+      }
+    }
+
+    step.action = 'restore-fields';
+    step.request = {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/merge-patch+json' },
+      body: JSON.stringify(restore)
+    };
+    return step;
+  }
+
+  if (entry.method === 'DELETE' && !entry.path.includes('/versions/')) {
+    if (!key) {
+      step.unsupported = 'The deleted content key is unknown';
+      return step;
+    }
+    if (isPlainObject(entry.arguments) && entry.arguments.permanent) {
+      step.unsupported = 'The content was permanently deleted and cannot be restored';
+      return step;
+    }
+    if (await getOrNull(client, `/experimental/content/${key}`)) {
+      step.conflicts.push('The content is not in the recycle bin any more (it exists again)');
+    }
+    step.action = 'undelete';
+    step.path = `/experimental/content/${key}:undelete`;
+    step.request = { method: 'POST' };
+    return step;
+  }
+
+  if (entry.method === 'POST') {
+    const createdVersion = isPlainObject(entry.after) ? entry.after.version : undefined;
+
+    // A new version of existing content (content-promote-tree, language branches)
+    if (/\/experimental\/content\/[^/]+\/versions(\?|$)/.test(entry.path) && key && createdVersion) {
+      const version = await getOrNull(client, `/experimental/content/${key}/versions/${createdVersion}`);
+      if (!version) {
+        step.unsupported = 'The created version no longer exists';
+        return step;
+      }
+      if (version.status === 'published') {
+        step.conflicts.push(`Version ${createdVersion} has been published since`);
+      }
+      step.action = 'delete-version';
+      step.path = `/experimental/content/${key}/versions/${createdVersion}`;
+      step.request = { method: 'DELETE' };
+      return step;
+    }
+
+    // New content (content-create, content-copy, content-promote-tree)
+    if ((entry.path === '/experimental/content' || entry.path.endsWith(':copy')) && isPlainObject(entry.after) && entry.after.key) {
+      const created = await getOrNull(client, `/experimental/content/${entry.after.key}`);
+      if (!created) {
+        step.unsupported = 'The created content no longer exists';
+        return step;
+      }
+      const published = Object.entries(created.locales || {})
+        .filter(([, locale]: [string, any]) => locale?.status === 'published')
+        .map(([locale]) => locale);
+      if (published.length > 0) {
+        step.conflicts.push(`The created content has been published since (${published.join(', ')})`);
+      }
+      step.action = 'delete-created';
+      step.path = `/experimental/content/${entry.after.key}`;
+      step.request = { method: 'DELETE' };
+      return step;
+    }
+  }
+
+  step.unsupported = `Undo is not supported for ${entry.method} ${entry.path}`;
+  return step;
+}
+
+/**
+ * Revert a write (or every write of one tool call) recorded in the audit log.
+ *
+ * Property changes are restored from the before-snapshot, moves are reverted
+ * by restoring the container, deletes are restored from the recycle bin and
+ * created content or versions are deleted again. Edits made after the original
+ * write are reported as conflicts and block the undo unless force is set.
+ */
+export async function executeContentUndo(
+  config: Config,
+  params: any
+): Promise<CallToolResult> {
+  try {
+    const validatedParams = validateInput(UndoSchema, params);
+    const auditLog = getAuditLog();
+    const logger = getLogger();
+
+    if (!auditLog.enabled) {
+      throw new ValidationError('Undo needs the audit log. Set AUDIT_LOG=true so writes are recorded.');
+    }
+
+    const entries = validatedParams.auditId
+      ? [await auditLog.get(validatedParams.auditId)].filter((entry): entry is AuditEntry => !!entry)
+      : (await auditLog.query({ operationId: validatedParams.operationId, limit: Number.MAX_SAFE_INTEGER }))
+        .filter(entry => entry.outcome === 'success');
+
+    if (entries.length === 0) {
+      throw new NotFoundError(
+        `No audit entries found for ${validatedParams.auditId ? `auditId ${validatedParams.auditId}` : `operationId ${validatedParams.operationId}`}`
+      );
+    }
+
+    const previousUndo = (await auditLog.query({ tool: 'content-undo', outcome: 'success', limit: Number.MAX_SAFE_INTEGER }))
+      .find(entry => isPlainObject(entry.arguments) && (
+        (validatedParams.auditId && entry.arguments.auditId === validatedParams.auditId) ||
+        (validatedParams.operationId && entry.arguments.operationId === validatedParams.operationId)
+      ));
+
+    // Entries come newest first, which is the order to revert them in
+    const environment = entries[0].environment;
+    const client = new OptimizelyContentClient(getCMAConfig(resolveEnvironment(config, environment)));
+    const steps: UndoStep[] = [];
+    for (const entry of entries) {
+      steps.push(await planUndo(client, entry));
+    }
+
+    if (previousUndo) {
+      steps.forEach(step => step.conflicts.push(`Already undone at ${previousUndo.timestamp} (audit entry ${previousUndo.id})`));
+    }
+
+    const conflicts = steps.flatMap(step => step.conflicts.map(conflict => `${step.auditId}: ${conflict}`));
+    const runnable = steps.filter(step => step.request);
+    const describe = (step: UndoStep): RequestPreview | undefined =>
+      step.request ? client.describeRequest(step.path, step.request) : undefined;
+
+    const report = (extra: Record<string, unknown>) => ({
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          environment,
+          steps: steps.map(step => ({
+            auditId: step.auditId,
+            tool: step.tool,
+            action: step.action,
+            unsupported: step.unsupported,
+            conflicts: step.conflicts.length > 0 ? step.conflicts : undefined,
+            request: describe(step)
+          })),
+          ...extra
+        }, null, 2)
+      }]
+    });
+
+    if (conflicts.length > 0 && !validatedParams.force) {
+      return report({
+        success: false,
+        undone: 0,
+        conflicts,
+        message: 'The content changed after the original write. Nothing was reverted. Review the conflicts and pass force: true to revert anyway.'
+      });
+    }
+
+    if (validatedParams.dryRun) {
+      return report({
+        success: true,
+        dryRun: true,
+        message: `Dry run - ${runnable.length} undo request(s) would be sent`
+      });
+    }
+
+    // Stop at the first failure: later steps may depend on it, and the caller needs to know where it stopped
+    const applied: string[] = [];
+    const failed: { auditId: string; error: string }[] = [];
+    for (const step of runnable) {
+      try {
+        await client.request(step.path, step.request);
+        applied.push(step.auditId);
+      } catch (error) {
+        failed.push({ auditId: step.auditId, error: error instanceof Error ? error.message : String(error) });
+        logger.error(`Undo of audit entry ${step.auditId} failed`, error);
+        break;
+      }
+    }
+    const notAttempted = runnable.slice(applied.length + failed.length).map(step => step.auditId);
+    const undone = applied.length;
+
+    logger.info(`Reverted ${undone} write(s)`, {
+      auditId: validatedParams.auditId,
+      operationId: validatedParams.operationId
+    });
+
+    return report({
+      success: failed.length === 0,
+      undone,
+      applied,
+      failed,
+      notAttempted,
+      message: failed.length > 0
+        ? `Reverted ${undone} write(s), then undoing ${failed[0].auditId} failed: ${failed[0].error}. ` +
+          'The content is partly reverted; the steps in notAttempted were not run.'
+        : undone === steps.length
+          ? `Reverted ${undone} write(s)`
+          : `Reverted ${undone} of ${steps.length} write(s); see unsupported steps`
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
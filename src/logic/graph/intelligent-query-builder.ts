@@ -655,15 +655,18 @@ export class IntelligentQueryBuilder {
   }
 }
 
-// Export a singleton instance for reuse
-let builderInstance: IntelligentQueryBuilder | null = null;
+// Reuse one builder per Graph endpoint
+const builderInstances = new Map<string, IntelligentQueryBuilder>();
 
 export async function getIntelligentQueryBuilder(
-  client: OptimizelyGraphClient
+  client: OptimizelyGraphClient,
+  instanceKey: string = 'default'
 ): Promise<IntelligentQueryBuilder> {
+  let builderInstance = builderInstances.get(instanceKey);
   if (!builderInstance) {
     builderInstance = new IntelligentQueryBuilder(client);
     await builderInstance.initialize();
+    builderInstances.set(instanceKey, builderInstance);
   }
   return builderInstance;
 }
@@ -675,5 +678,5 @@ export async function createIntelligentQueryBuilder(
   config: GraphConfig
 ): Promise<IntelligentQueryBuilder> {
   const client = new OptimizelyGraphClient(config);
-  return getIntelligentQueryBuilder(client);
+  return getIntelligentQueryBuilder(client, config.endpoint);
 }
\ No newline at end of file
@@ -206,8 +206,12 @@ export class QueryAdapter {
   /**
    * Execute a query with the client
    */
-  async executeQuery<T>(query: string, variables?: Record<string, any>): Promise<T> {
-    return this.client.query<T>(query, variables);
+  async executeQuery<T>(
+    query: string,
+    variables?: Record<string, any>,
+    options?: { cacheKey?: string; cacheTtl?: number }
+  ): Promise<T> {
+    return this.client.query<T>(query, variables, options);
   }
 
   /**
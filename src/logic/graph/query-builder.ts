@@ -21,6 +21,15 @@ export const GetContentParamsSchema = z.object({
   includeRelated: z.boolean().optional()
 });
 
+export const GetAncestorsParamsSchema = z.object({
+  contentId: z.string().min(1).optional(),
+  path: z.string().min(1).optional(),
+  locale: z.string().optional(),
+  levels: z.number().int().min(1).max(20).default(10)
+}).refine(params => !!params.contentId !== !!params.path, {
+  message: 'Provide either contentId or path'
+});
+
 export const AutocompleteParamsSchema = z.object({
   query: z.string().min(1),
   field: z.string(),
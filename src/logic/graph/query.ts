@@ -5,6 +5,7 @@ import { handleError, ValidationError } from '../../utils/errors.js';
 import { validateGraphQLQuery } from '../../utils/validation.js';
 import { createQueryAdapter } from './query-adapter.js';
 import { getLogger } from '../../utils/logger.js';
+import { type ContentOutputFormat, formatContentResult } from '../content/render.js';
 
 export async function executeGraphQuery(
   config: GraphConfig,
@@ -83,6 +84,8 @@ export async function executeGraphGetContentByPath(
     path: string;
     locale?: string;
     fields?: string[];
+    format?: ContentOutputFormat;
+    maxFieldLength?: number;
   }
 ): Promise<CallToolResult> {
   try {
@@ -131,12 +134,11 @@ export async function executeGraphGetContentByPath(
       };
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(content, null, 2)
-      }]
-    };
+    return formatContentResult(content, {
+      format: params.format || 'json',
+      maxFieldLength: params.maxFieldLength,
+      fullValueHint: `graph-get-content-by-path {"path": "${normalizedPath}", "format": "json"}`
+    });
   } catch (error) {
     return handleError(error);
   }
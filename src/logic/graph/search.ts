@@ -3,14 +3,17 @@ import { OptimizelyGraphClient } from '../../clients/graph-client.js';
 import { GraphConfig } from '../../types/config.js';
 import { handleError } from '../../utils/errors.js';
 import { createCacheKey } from '../../utils/cache.js';
-import { validateInput } from '../../utils/validation.js';
+import { targetTags } from '../../services/cache-invalidation.js';
+import { validateInput, toGraphLocale } from '../../utils/validation.js';
 import { createQueryAdapter } from './query-adapter.js';
 import { getLogger } from '../../utils/logger.js';
 import { createIntelligentQueryBuilder } from './intelligent-query-builder.js';
+import { ContentOutputSchema, formatContentResult } from '../content/render.js';
 import {
   SearchParamsSchema,
   GetContentParamsSchema,
-  AutocompleteParamsSchema
+  AutocompleteParamsSchema,
+  GetAncestorsParamsSchema
 } from './query-builder.js';
 
 export async function executeGraphSearch(
@@ -45,7 +48,7 @@ export async function executeGraphSearch(
 
     const cacheKey = createCacheKey('graph:search', validatedParams);
     
-    const result = await queryAdapter.executeQuery(query, variables);
+    const result = await queryAdapter.executeQuery(query, variables, { cacheKey, cacheTtl: 300 });
 
     // Handle different response structures
     const searchResult = (result as any).content || 
@@ -70,6 +73,7 @@ export async function executeGraphGetContent(
 ): Promise<CallToolResult> {
   try {
     const validatedParams = validateInput(GetContentParamsSchema, params);
+    const output = validateInput(ContentOutputSchema, params);
     const logger = getLogger();
     const queryAdapter = await createQueryAdapter(config);
     
@@ -99,7 +103,7 @@ export async function executeGraphGetContent(
 
     const cacheKey = createCacheKey('graph:content', validatedParams);
     
-    const result = await queryAdapter.executeQuery(query, variables);
+    const result = await queryAdapter.executeQuery(query, variables, { cacheKey, cacheTtl: 300 });
 
     // Extract the first item if found - handle different response structures
     const content = (result as any).content?.items?.[0] ||
@@ -120,12 +124,11 @@ export async function executeGraphGetContent(
       };
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(content, null, 2)
-      }]
-    };
+    return formatContentResult(content, {
+      format: output.format ?? 'json',
+      maxFieldLength: output.maxFieldLength,
+      fullValueHint: `graph-get-content {"id": "${contentKey}", "format": "json"}`
+    });
   } catch (error) {
     return handleError(error);
   }
@@ -230,6 +233,8 @@ export async function executeGraphGetChildren(
     const result = await client.query(query, variables, {
       cacheKey,
       cacheTtl: 300,
+      // New children of the parent do not appear in the result, so tag the parent too
+      cacheTags: targetTags({ keys: [], types: [], paths: [], containers: [String(parentId)] }),
       operationName: 'GetChildren'
     });
 
@@ -244,38 +249,179 @@ export async function executeGraphGetChildren(
   }
 }
 
+const ANCESTOR_FIELDS = `
+  _metadata {
+    key
+    locale
+    displayName
+    types
+    container
+    url {
+      base
+      hierarchical
+    }
+  }
+`;
+
+/**
+ * URL paths of every ancestor of a hierarchical URL, closest first:
+ * "/en/news/article/" -> ["/en/news/", "/en/", "/"]
+ */
+function ancestorUrls(hierarchical: string): string[] {
+  const pathname = /^https?:\/\//.test(hierarchical) ? new URL(hierarchical).pathname : hierarchical;
+  const segments = pathname.split('/').filter(Boolean);
+  const urls: string[] = [];
+  for (let length = segments.length - 1; length >= 0; length--) {
+    urls.push(`/${segments.slice(0, length).map(segment => `${segment}/`).join('')}`);
+  }
+  return urls;
+}
+
+async function findContentMetadata(
+  client: OptimizelyGraphClient,
+  where: Record<string, any>,
+  limit: number,
+  locale: string | undefined,
+  cacheKey: string
+): Promise<any[]> {
+  const localeArgument = locale ? `locale: [${toGraphLocale(locale)}]` : '';
+  const query = `
+    query GetAncestors($where: _ContentWhereInput, $limit: Int!) {
+      _Content(where: $where, limit: $limit ${localeArgument}) {
+        items {
+          ${ANCESTOR_FIELDS}
+        }
+      }
+    }
+  `;
+
+  const result = await client.query<any>(query, { where, limit }, {
+    cacheKey,
+    cacheTtl: 600, // 10 minutes
+    operationName: 'GetAncestors'
+  });
+  return (result?._Content?.items || [])
+    .map((item: any) => item?._metadata)
+    .filter((metadata: any) => metadata?.key);
+}
+
+/**
+ * Resolve the breadcrumb of a content item. Every ancestor URL is looked up in
+ * one batch; the container chain then orders them, and containers without a
+ * URL (folders, the site root) are fetched one level at a time.
+ */
 export async function executeGraphGetAncestors(
   config: GraphConfig,
   params: any
 ): Promise<CallToolResult> {
   try {
-    const { contentId, levels } = params;
-    
-    if (!contentId) {
-      throw new Error('contentId is required');
+    const validatedParams = validateInput(GetAncestorsParamsSchema, params);
+    const levels = validatedParams.levels ?? 10;
+    const client = new OptimizelyGraphClient(config);
+
+    // Keys from graph-search carry locale and status suffixes (key_en_Published)
+    const contentKey = validatedParams.contentId?.split('_')[0];
+    const path = validatedParams.path && (validatedParams.path.startsWith('/') ? validatedParams.path : `/${validatedParams.path}`);
+    const startWhere = contentKey
+      ? { _metadata: { key: { eq: contentKey } } }
+      : { _metadata: { url: { hierarchical: { eq: path } } } };
+
+    const [item] = await findContentMetadata(
+      client, startWhere, 1, validatedParams.locale, createCacheKey('graph:ancestors:item', { contentKey, path, locale: validatedParams.locale })
+    );
+    if (!item) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Content not found',
+            contentId: validatedParams.contentId,
+            path,
+            hint: 'Use graph-search to find the content key, or pass the hierarchical URL path (e.g. "/en/news/")'
+          }, null, 2)
+        }]
+      };
     }
 
-    const client = new OptimizelyGraphClient(config);
-    const queryBuilder = await createIntelligentQueryBuilder(config);
-    
-    // For now, just get the content itself as ancestors might not be supported
-    const query = await queryBuilder.buildGetContentQuery({
-      id: contentId,
-      includeAllFields: false
-    });
-    
-    const cacheKey = createCacheKey('graph:ancestors', params);
-    
-    const result = await client.query(query, { id: contentId }, {
-      cacheKey,
-      cacheTtl: 600, // 10 minutes
-      operationName: 'GetAncestors'
-    });
+    const locale = validatedParams.locale || item.locale;
+
+    // 1. Batch: everything that lives at a parent URL of the item
+    const byKey = new Map<string, any>();
+    const urls = item.url?.hierarchical ? ancestorUrls(item.url.hierarchical) : [];
+    if (urls.length > 0) {
+      const found = await findContentMetadata(
+        client,
+        { _metadata: { url: { hierarchical: { in: urls } } } },
+        urls.length * 2,
+        locale,
+        createCacheKey('graph:ancestors:urls', { urls, locale })
+      );
+      for (const metadata of found) {
+        byKey.set(metadata.key, metadata);
+      }
+    }
+
+    // 2. Follow the container chain (null at the top), fetching parents the batch did not cover
+    const ancestors: any[] = [];
+    const visited = new Set<string>([item.key]);
+    let stoppedAt: { key: string; reason: string } | undefined;
+    let containerKey: string | undefined = item.container || undefined;
+
+    while (containerKey && ancestors.length < levels) {
+      if (visited.has(containerKey)) {
+        stoppedAt = { key: containerKey, reason: 'Cycle in the container chain' };
+        break;
+      }
+      visited.add(containerKey);
+
+      let parent = byKey.get(containerKey);
+      if (!parent) {
+        [parent] = await findContentMetadata(
+          client,
+          { _metadata: { key: { eq: containerKey } } },
+          1,
+          locale,
+          createCacheKey('graph:ancestors:item', { contentKey: containerKey, locale })
+        );
+      }
+      if (!parent) {
+        stoppedAt = { key: containerKey, reason: 'Not in Optimizely Graph (the site root, or not published in this locale)' };
+        break;
+      }
+
+      ancestors.push(parent);
+      containerKey = parent.container || undefined;
+    }
+    const truncated = !!containerKey && !stoppedAt;
+
+    // Closest ancestor first while walking; breadcrumbs read root first
+    const ordered = ancestors
+      .map((metadata, index) => ({
+        key: metadata.key,
+        displayName: metadata.displayName,
+        contentType: metadata.types?.[0],
+        types: metadata.types,
+        url: metadata.url?.hierarchical,
+        level: index + 1
+      }))
+      .reverse();
 
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(result, null, 2)
+        text: JSON.stringify({
+          content: {
+            key: item.key,
+            displayName: item.displayName,
+            contentType: item.types?.[0],
+            url: item.url?.hierarchical
+          },
+          locale,
+          ancestors: ordered,
+          breadcrumb: [...ordered.map(ancestor => ancestor.displayName), item.displayName].join(' > '),
+          truncated,
+          stoppedAt
+        }, null, 2)
       }]
     };
   } catch (error) {
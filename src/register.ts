@@ -1,20 +1,41 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
-import type { Config } from './config.js';
+import { getEnvironmentNames, resolveEnvironment, type Config } from './config.js';
 import { getLogger } from './utils/logger.js';
-import { getCacheManager } from './utils/cache.js';
-import { handleError } from './utils/errors.js';
+import { cacheSettingsFromConfig, configureCache, getCacheManager, getCacheNamespaces } from './utils/cache.js';
+import { handleError, ToolNotAllowedError } from './utils/errors.js';
+import { getCallRestriction, getToolRestriction } from './utils/tool-policy.js';
+import { runWithRequestContext } from './utils/request-context.js';
+import { getEnvironmentClients } from './clients/registry.js';
 import type { ToolContext } from './types/tools.js';
 import type { Tool, ListToolsResult } from '@modelcontextprotocol/sdk/types.js';
 import { getGraphTools, registerGraphHandlers } from './tools/graph/register.js';
 import { getContentTools, registerContentHandlers } from './tools/content/register.js';
 import { getIntelligentTools, registerIntelligentHandlers } from './tools/intelligent/register.js';
 import { getHelperTools } from './tools/helper/register.js';
+import { getAuditTools, registerAuditHandlers } from './tools/audit/register.js';
+import { getAssetTools, registerAssetHandlers } from './tools/assets/register.js';
+import { getCompositeTools, registerCompositeHandlers } from './tools/composite/register.js';
+import { configureAuditLog } from './services/audit-log.js';
+import { configureRateLimits, getRateLimiterStats, rateLimitSettingsFromConfig } from './utils/rate-limiter.js';
+import { circuitBreakerSettingsFromConfig, configureCircuitBreakers, getCircuitBreakerStats } from './utils/circuit-breaker.js';
+import { traceToolCall } from './utils/telemetry.js';
 import { executeGetFullContentByPath } from './tools/helper/get-full-content.js';
 
 export async function registerAllTools(server: Server, config: Config): Promise<void> {
   const logger = getLogger();
+
+  configureCache(cacheSettingsFromConfig(config.options));
   const cache = getCacheManager();
+
+  configureRateLimits(rateLimitSettingsFromConfig(config.options));
+  configureCircuitBreakers(circuitBreakerSettingsFromConfig(config.options));
+
+  configureAuditLog({
+    enabled: config.options.auditLog,
+    filePath: config.options.auditLogFile
+  });
   
   // Create shared context for all tools
   const context: ToolContext = {
@@ -51,23 +72,81 @@ export async function registerAllTools(server: Server, config: Config): Promise<
         properties: {
           category: {
             type: 'string',
-            enum: ['graph', 'content', 'assets', 'types', 'workflow', 'composite', 'utility', 'intelligent'],
+            enum: ['graph', 'content', 'assets', 'types', 'workflow', 'composite', 'utility', 'intelligent', 'audit'],
             description: 'Tool category to filter documentation'
           }
         },
         additionalProperties: false
       }
+    },
+    {
+      name: 'list-environments',
+      description: 'List the configured environment profiles (e.g. dev, test, production). Pass a profile name as the "environment" argument of any other tool to run it against that environment.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          testConnection: {
+            type: 'boolean',
+            description: 'Also test Graph and CMA connectivity for each environment',
+            default: false
+          }
+        },
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'cache-stats',
+      description: 'Show cache size, memory use, limits, hit/miss/eviction counts and where the cache is stored for the environment (or all environments)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          allEnvironments: {
+            type: 'boolean',
+            description: 'Report every environment cache created in this process',
+            default: false
+          }
+        },
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'cache-clear',
+      description: 'Clear cached Graph/CMA responses and schema introspection for the environment, e.g. after a content type change. Pass prefix to clear only matching keys (e.g. "graphql:" or "schema:").',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          prefix: {
+            type: 'string',
+            description: 'Only clear keys starting with this prefix'
+          },
+          allEnvironments: {
+            type: 'boolean',
+            description: 'Clear the caches of every configured environment, including entries persisted to disk by earlier runs',
+            default: false
+          }
+        },
+        additionalProperties: false
+      }
     }
   ];
 
-  // Combine all tools
+  // Combine all tools and let every tool target a named environment
+  const environmentNames = getEnvironmentNames(config);
   const tools: Tool[] = [
     ...utilityTools,
     ...getGraphTools(),
     ...getContentTools(),
+    ...getAssetTools(),
+    ...getCompositeTools(),
     ...getIntelligentTools(),
-    ...getHelperTools()
-  ];
+    ...getHelperTools(),
+    ...getAuditTools()
+  ]
+    // Safe mode and the allow/deny lists decide which tools are exposed at all
+    .filter(tool => !getToolRestriction(tool.name, config.options))
+    .map(tool => tool.name === 'list-environments'
+      ? tool
+      : withEnvironmentArgument(tool, environmentNames, config.environment || 'default'));
 
   // Create handler map
   const handlers = new Map<string, (params: any, context: ToolContext) => Promise<any>>();
@@ -78,9 +157,18 @@ export async function registerAllTools(server: Server, config: Config): Promise<
   // Register content handlers
   registerContentHandlers(handlers);
   
+  // Register asset handlers
+  registerAssetHandlers(handlers);
+
+  // Register composite handlers
+  registerCompositeHandlers(handlers);
+
   // Register intelligent handlers
   registerIntelligentHandlers(handlers);
   
+  // Register audit handlers
+  registerAuditHandlers(handlers);
+  
   // Register helper handlers
   handlers.set('get-full-content-by-path', async (params: any, ctx: ToolContext) => {
     return executeGetFullContentByPath(ctx.config, params);
@@ -103,7 +191,10 @@ export async function registerAllTools(server: Server, config: Config): Promise<
     method: z.literal('tools/call'),
     params: z.object({
       name: z.string(),
-      arguments: z.record(z.any()).optional()
+      arguments: z.record(z.any()).optional(),
+      _meta: z.object({
+        progressToken: z.union([z.string(), z.number()]).optional()
+      }).passthrough().optional()
     })
   });
 
@@ -113,38 +204,94 @@ export async function registerAllTools(server: Server, config: Config): Promise<
   }));
 
   // Handle tool call requests
-  server.setRequestHandler(callToolSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    
-    logger.debug(`Tool ${name} called`, { args });
+  server.setRequestHandler(callToolSchema, async (request, extra) => {
+    const { name, arguments: rawArgs, _meta: meta } = request.params;
+    const { environment, ...args } = rawArgs || {};
+
+    logger.debug(`Tool ${name} called`, { args, environment });
 
     try {
-      // Check if we have a handler for this tool
-      const handler = handlers.get(name);
-      if (handler) {
-        return await handler(args || {}, context);
+      const restriction = getCallRestriction(name, args, config.options);
+      if (restriction) {
+        logger.warn(`Refused call to ${name}: ${restriction.reason}`);
+        return handleError(new ToolNotAllowedError(restriction.reason, {
+          tool: name,
+          rule: restriction.rule,
+          safeMode: config.options.safeMode,
+          hint: restriction.rule === 'safe-mode'
+            ? 'Ask an administrator to run a server without SAFE_MODE for write access'
+            : 'Use get-documentation to see the tools available on this server'
+        }));
       }
 
-      // Handle utility tools
-      switch (name) {
-        case 'health-check':
-          return await handleHealthCheck(context);
-        
-        case 'get-config':
-          return await handleGetConfig(context);
-        
-        case 'get-documentation':
-          return await handleGetDocumentation(args || {}, context);
-        
-        default:
-          return {
-            isError: true,
-            content: [{
-              type: 'text',
-              text: `Unknown tool: ${name}`
-            }]
-          };
+      // Switch config and cache to the requested environment profile
+      const environmentConfig = resolveEnvironment(config, environment);
+      const environmentName = environmentConfig.environment || 'default';
+      const callContext: ToolContext = {
+        ...context,
+        config: environmentConfig,
+        cache: getCacheManager(environmentName)
+      };
+
+      // Only clients that sent a progress token get progress notifications
+      const progressToken = meta?.progressToken;
+      if (progressToken !== undefined) {
+        callContext.progress = async (progress, total, message) => {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message }
+          });
+        };
       }
+
+      const requestContext = {
+        environment: environmentName,
+        toolName: name,
+        arguments: args,
+        operationId: randomUUID()
+      };
+
+      const spanAttributes = {
+        'optimizely.environment': environmentName,
+        'mcp.operation_id': requestContext.operationId
+      };
+      return await traceToolCall(name, spanAttributes, () => runWithRequestContext(requestContext, async () => {
+        // Check if we have a handler for this tool
+        const handler = handlers.get(name);
+        if (handler) {
+          return await handler(args, callContext);
+        }
+
+        // Handle utility tools
+        switch (name) {
+          case 'health-check':
+            return await handleHealthCheck(callContext);
+
+          case 'get-config':
+            return await handleGetConfig(callContext);
+
+          case 'get-documentation':
+            return await handleGetDocumentation(args, callContext);
+
+          case 'list-environments':
+            return await handleListEnvironments(args, callContext);
+
+          case 'cache-stats':
+            return await handleCacheStats(args, environmentName);
+
+          case 'cache-clear':
+            return await handleCacheClear(args, callContext, environmentName);
+
+          default:
+            return {
+              isError: true,
+              content: [{
+                type: 'text',
+                text: `Unknown tool: ${name}`
+              }]
+            };
+        }
+      }));
     } catch (error) {
       logger.error(`Tool ${name} failed`, error);
       return handleError(error);
@@ -154,26 +301,51 @@ export async function registerAllTools(server: Server, config: Config): Promise<
   logger.info(`Registered ${tools.length} tools`);
 }
 
+function withEnvironmentArgument(tool: Tool, environmentNames: string[], defaultEnvironment: string): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        environment: {
+          type: 'string',
+          enum: environmentNames,
+          description: `Environment profile to run against (default: "${defaultEnvironment}"). Use list-environments to see profiles.`
+        }
+      }
+    }
+  };
+}
+
 async function handleHealthCheck(context: ToolContext) {
   const { config, logger } = context;
   
   logger.info('Health check requested');
+
+  const circuitBreakers = getCircuitBreakerStats();
   
   return {
     content: [{
       type: 'text',
       text: JSON.stringify({
-        status: 'healthy',
+        // An open circuit means an API is currently failing fast
+        status: circuitBreakers.some(breaker => breaker.state === 'open') ? 'degraded' : 'healthy',
         server: {
           name: config.server.name,
           version: config.server.version
         },
+        environment: config.environment,
         configuration: {
           graphEndpoint: config.graph.endpoint,
           cmaBaseUrl: config.cma.baseUrl,
           cacheEnabled: true,
-          cacheTtl: config.options.cacheTtl
+          cacheTtl: config.options.cacheTtl,
+          safeMode: config.options.safeMode
         },
+        // Queue depth and pacing per API host this process has called
+        rateLimits: getRateLimiterStats(),
+        circuitBreakers,
         timestamp: new Date().toISOString()
       }, null, 2)
     }]
@@ -187,7 +359,11 @@ async function handleGetConfig(context: ToolContext) {
   
   // Sanitize config to remove sensitive data
   const sanitizedConfig = {
-    server: config.server,
+    server: {
+      ...config.server,
+      webhookSecret: config.server.webhookSecret ? '[redacted]' : undefined
+    },
+    environment: config.environment,
     graph: {
       endpoint: config.graph.endpoint,
       authMethod: config.graph.authMethod
@@ -223,13 +399,14 @@ async function handleGetDocumentation(params: { category?: string }, context: To
       workflow: 'Workflow management',
       composite: 'Complex multi-step operations',
       utility: 'Helper and utility tools',
-      intelligent: 'Smart content creation with parent discovery'
+      intelligent: 'Smart content creation with parent discovery',
+      audit: 'Audit log of content changes made through this server'
     }
   };
 
   // Get all available tools grouped by category
   const toolsByCategory: Record<string, string[]> = {
-    utility: ['health-check', 'get-config', 'get-documentation'],
+    utility: ['health-check', 'get-config', 'get-documentation', 'list-environments', 'cache-stats', 'cache-clear'],
     graph: [
       'graph-query',
       'graph-introspection',
@@ -250,13 +427,23 @@ async function handleGetDocumentation(params: { category?: string }, context: To
       'content-delete',
       'content-move',
       'content-copy',
+      'content-promote-tree',
+      'content-export',
+      'content-import',
+      'content-import-document',
+      'content-undo',
       'content-list-versions',
       'content-create-version',
       'content-promote-version',
       'content-list-languages',
       'content-create-language-branch'
     ],
-    assets: [],  // Will be added in Phase 4
+    assets: [
+      'asset-upload',
+      'asset-update-metadata',
+      'asset-list',
+      'asset-find-unused'
+    ],
     types: [
       'type-list',
       'type-get',
@@ -266,19 +453,31 @@ async function handleGetDocumentation(params: { category?: string }, context: To
       'workflow-get-status',
       'workflow-transition'
     ],
-    composite: [], // Will be added in Phase 5
+    composite: [
+      'content-bulk-update',
+      'content-bulk-publish'
+    ],
     intelligent: [
       'content_find_by_name',
       'content_get_details', 
       'content_create_under',
       'content_creation_wizard'
+    ],
+    audit: [
+      'audit-query'
     ]
   };
 
+  const isAvailable = (tool: string) => !getToolRestriction(tool, context.config.options);
+
   if (params.category) {
-    docs.tools = toolsByCategory[params.category] || [];
+    docs.tools = (toolsByCategory[params.category] || []).filter(isAvailable);
   } else {
-    docs.availableTools = Object.values(toolsByCategory).flat();
+    docs.availableTools = Object.values(toolsByCategory).flat().filter(isAvailable);
+  }
+
+  if (context.config.options.safeMode) {
+    docs.safeMode = 'The server runs in safe mode: tools that modify content are disabled';
   }
   
   return {
@@ -287,4 +486,97 @@ async function handleGetDocumentation(params: { category?: string }, context: To
       text: JSON.stringify(docs, null, 2)
     }]
   };
-}
\ No newline at end of file
+}
+
+async function handleListEnvironments(params: { testConnection?: boolean }, context: ToolContext) {
+  const { config, logger } = context;
+
+  logger.info('Environment list requested', { testConnection: params.testConnection });
+
+  const environments = await Promise.all(getEnvironmentNames(config).map(async (name) => {
+    const environmentConfig = resolveEnvironment(config, name);
+    const profile = config.environments?.[name];
+    const summary: Record<string, any> = {
+      name,
+      description: profile?.description,
+      isDefault: name === config.environment,
+      graphEndpoint: environmentConfig.graph.endpoint,
+      graphAuthMethod: environmentConfig.graph.authMethod,
+      cmaBaseUrl: environmentConfig.cma.baseUrl,
+      cache: getCacheManager(name).getStats()
+    };
+
+    if (params.testConnection) {
+      const clients = getEnvironmentClients(environmentConfig);
+      const [graph, cma] = await Promise.all([
+        clients.graph.testConnection(),
+        clients.cma.testConnection()
+      ]);
+      summary.connectivity = { graph, cma };
+    }
+
+    return summary;
+  }));
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        defaultEnvironment: config.environment,
+        environments
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleCacheStats(params: { allEnvironments?: boolean }, environment: string) {
+  const names = params.allEnvironments ? getCacheNamespaces() : [environment];
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        caches: Object.fromEntries(names.map(name => [name, getCacheManager(name).getStats()]))
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleCacheClear(
+  params: { prefix?: string; allEnvironments?: boolean },
+  context: ToolContext,
+  environment: string
+) {
+  const { config, logger } = context;
+  // Configured environments too: with CACHE_STORE=file their persisted entries
+  // outlive this process even if nothing here has used them yet
+  const names = params.allEnvironments
+    ? Array.from(new Set([...getEnvironmentNames(config), ...getCacheNamespaces()]))
+    : [environment];
+
+  const cleared: Record<string, number> = {};
+  for (const name of names) {
+    const cache = getCacheManager(name);
+    if (params.prefix) {
+      cleared[name] = cache.deleteByPrefix(params.prefix);
+    } else {
+      cleared[name] = cache.size();
+      cache.clear();
+    }
+    await cache.flush();
+  }
+
+  logger.info('Cache cleared', { environments: names, prefix: params.prefix });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        prefix: params.prefix,
+        cleared,
+        message: `Removed ${Object.values(cleared).reduce((sum, count) => sum + count, 0)} cache entries`
+      }, null, 2)
+    }]
+  };
+}
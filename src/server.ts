@@ -1,8 +1,12 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { getConfig, type Config } from './config.js';
-import { getLogger } from './utils/logger.js';
+import { configureLogger, getLogger } from './utils/logger.js';
+import { shutdownTelemetry, startTelemetry, telemetrySettingsFromConfig } from './utils/telemetry.js';
 import { registerAllTools } from './register.js';
+import { createTransport } from './transports/index.js';
+import { startHttpServer } from './transports/http.js';
+
+export { createTransport, type TransportOptions } from './transports/index.js';
 
 export async function createServer(config: Config): Promise<Server> {
   const logger = getLogger();
@@ -24,48 +28,61 @@ export async function createServer(config: Config): Promise<Server> {
   return server;
 }
 
-export function createTransport(transportType: string) {
-  switch (transportType) {
-    case 'stdio':
-      return new StdioServerTransport();
-    default:
-      throw new Error(`Unsupported transport: ${transportType}`);
-  }
-}
-
 export async function startServer(): Promise<void> {
   const logger = getLogger();
-  
+
   try {
     // Load configuration
     const config = getConfig();
-    
-    // Create server
-    const server = await createServer(config);
-    
-    // Create transport
-    const transport = createTransport(config.server.transport);
-    
-    // Start server
-    await server.connect(transport);
-    
+    configureLogger({
+      level: config.options.logLevel,
+      format: config.options.logFormat,
+      file: config.options.logFile
+    });
+    await startTelemetry(telemetrySettingsFromConfig(config));
+
+    let shutdown: () => Promise<void>;
+
+    if (config.server.transport === 'stdio') {
+      // Create server
+      const server = await createServer(config);
+
+      // Create transport
+      const transport = createTransport(config.server.transport);
+
+      // Start server
+      await server.connect(transport);
+      shutdown = () => server.close();
+    } else {
+      // HTTP transports create one server per client session
+      const httpServer = await startHttpServer(config, () => createServer(config));
+      shutdown = () => httpServer.close();
+    }
+
     logger.info(`Server running with ${config.server.transport} transport`);
-    
+
     // Handle graceful shutdown
-    process.on('SIGINT', async () => {
-      logger.info('Shutting down server...');
-      await server.close();
-      process.exit(0);
-    });
-    
-    process.on('SIGTERM', async () => {
+    let shuttingDown = false;
+    const handleShutdown = async () => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
       logger.info('Shutting down server...');
-      await server.close();
+      try {
+        await shutdown();
+        await shutdownTelemetry();
+      } catch (error) {
+        logger.error('Error during shutdown:', error);
+      }
       process.exit(0);
-    });
-    
+    };
+
+    process.on('SIGINT', handleShutdown);
+    process.on('SIGTERM', handleShutdown);
+
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'node:crypto';
+import { getLogger } from '../utils/logger.js';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  // Groups all writes made by one tool call
+  operationId?: string;
+  tool?: string;
+  arguments?: unknown;
+  environment?: string;
+  impersonateUser?: string;
+  method: string;
+  path: string;
+  contentKeys: string[];
+  requestBody?: unknown;
+  before?: unknown;
+  after?: unknown;
+  outcome: AuditOutcome;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  contentKey?: string;
+  operationId?: string;
+  environment?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Where audit entries are stored. Sinks are append-only; query is optional
+ * for sinks that forward entries elsewhere (e.g. a SIEM).
+ */
+export interface AuditSink {
+  append(entry: AuditEntry): Promise<void>;
+  query?(filter: AuditQuery): Promise<AuditEntry[]>;
+}
+
+/**
+ * Default sink: one JSON object per line in a local file
+ */
+export class JsonlFileAuditSink implements AuditSink {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    // Serialize appends so concurrent writes never interleave lines
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+    });
+    // A failed write is reported to its caller only; later writes and queries still run
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  async query(filter: AuditQuery): Promise<AuditEntry[]> {
+    await this.writeQueue;
+
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line rather than failing the whole query
+      }
+    }
+
+    return filterAuditEntries(entries, filter);
+  }
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditQuery): AuditEntry[] {
+  const contentKey = filter.contentKey?.replace(/-/g, '').toLowerCase();
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+
+  return entries
+    .filter(entry => !filter.tool || entry.tool === filter.tool)
+    .filter(entry => !filter.operationId || entry.operationId === filter.operationId)
+    .filter(entry => !filter.environment || entry.environment === filter.environment)
+    .filter(entry => !filter.outcome || entry.outcome === filter.outcome)
+    .filter(entry => !contentKey || entry.contentKeys.includes(contentKey))
+    .filter(entry => since === undefined || Date.parse(entry.timestamp) >= since)
+    .filter(entry => until === undefined || Date.parse(entry.timestamp) <= until)
+    .reverse() // newest first
+    .slice(0, filter.limit ?? 50);
+}
+
+const SENSITIVE_KEY = /secret|password|token|authorization|api[-_]?key|credential/i;
+const MAX_SNAPSHOT_LENGTH = 64 * 1024;
+
+/**
+ * Redact credentials from arguments before they are written to the audit log
+ */
+export function sanitizeAuditValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sanitizeAuditValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? '[REDACTED]' : sanitizeAuditValue(item)
+      ])
+    );
+  }
+  return value;
+}
+
+// Keep very large responses from bloating the log
+function limitSnapshot(value: unknown): unknown {
+  if (value === undefined) {
+    return undefined;
+  }
+  const text = JSON.stringify(value);
+  if (text === undefined || text.length <= MAX_SNAPSHOT_LENGTH) {
+    return value;
+  }
+  return { truncated: true, length: text.length, preview: text.slice(0, 1024) };
+}
+
+export class AuditLog {
+  private logger = getLogger();
+
+  constructor(private sink: AuditSink | null) {}
+
+  get enabled(): boolean {
+    return this.sink !== null;
+  }
+
+  async record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry | null> {
+    if (!this.sink) {
+      return null;
+    }
+
+    const fullEntry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+      arguments: sanitizeAuditValue(entry.arguments),
+      requestBody: sanitizeAuditValue(entry.requestBody),
+      before: limitSnapshot(entry.before),
+      after: limitSnapshot(entry.after)
+    };
+
+    try {
+      await this.sink.append(fullEntry);
+    } catch (error) {
+      // Losing an audit entry must not turn a successful write into a failure
+      this.logger.error('Failed to write audit entry', error);
+    }
+    return fullEntry;
+  }
+
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    if (!this.sink?.query) {
+      return [];
+    }
+    return this.sink.query(filter);
+  }
+
+  async get(id: string): Promise<AuditEntry | undefined> {
+    const entries = await this.query({ limit: Number.MAX_SAFE_INTEGER });
+    return entries.find(entry => entry.id === id);
+  }
+}
+
+// Singleton instance; disabled until the server configures it
+let auditLog = new AuditLog(null);
+let configuredFor: string | null = null;
+
+export function getAuditLog(): AuditLog {
+  return auditLog;
+}
+
+// Safe to call once per session: the file sink is only created once per path
+export function configureAuditLog(options: { enabled: boolean; filePath: string; sink?: AuditSink }): AuditLog {
+  const signature = options.enabled ? path.resolve(options.filePath) : 'disabled';
+  if (options.sink || signature !== configuredFor) {
+    auditLog = new AuditLog(options.enabled ? options.sink || new JsonlFileAuditSink(options.filePath) : null);
+    configuredFor = options.sink ? null : signature;
+  }
+  return auditLog;
+}
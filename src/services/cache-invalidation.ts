@@ -0,0 +1,195 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { getCacheManager } from '../utils/cache.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Tag-based invalidation of cached Graph results
+ *
+ * Cached Graph responses are tagged with the content they contain (see
+ * contentTags). When an editor publishes, a webhook names the changed
+ * content and every cached response that included it is dropped, instead of
+ * staying stale until its TTL runs out. Writes through the CMA client do the
+ * same for the content they touch.
+ */
+
+// Every cached Graph response carries this tag
+export const GRAPH_TAG = 'graph';
+
+export interface InvalidationTargets {
+  keys: string[];
+  types: string[];
+  paths: string[];
+  // Parents whose children changed; drops cached child listings
+  containers: string[];
+  // Drop every cached Graph response, e.g. after a bulk sync
+  all: boolean;
+}
+
+const MAX_TAG_DEPTH = 12;
+
+// Graph indexes CMA writes a few seconds after they happen
+export const GRAPH_SYNC_HOLD_SECONDS = 30;
+
+// "https://site/en/news/" and "/en/news" both become "/en/news/"
+export function normalizeContentPath(url: string): string {
+  let pathname = url.trim();
+  if (/^https?:\/\//i.test(pathname)) {
+    try {
+      pathname = new URL(pathname).pathname;
+    } catch {
+      // Not a URL after all; use it as given
+    }
+  }
+  pathname = pathname.split(/[?#]/)[0];
+  if (!pathname.startsWith('/')) pathname = `/${pathname}`;
+  if (!pathname.endsWith('/')) pathname = `${pathname}/`;
+  return pathname.toLowerCase();
+}
+
+// Graph IDs carry locale and status suffixes (key_en_Published)
+function normalizeKey(key: string): string {
+  return key.split('_')[0].replace(/-/g, '').toLowerCase();
+}
+
+export function targetTags(targets: Omit<InvalidationTargets, 'all'>): string[] {
+  return [
+    ...targets.keys.map(key => `key:${normalizeKey(key)}`),
+    ...targets.types.map(type => `type:${type}`),
+    ...targets.paths.map(path => `path:${normalizeContentPath(path)}`),
+    ...targets.containers.map(container => `container:${normalizeKey(container)}`)
+  ];
+}
+
+/**
+ * Tags for every content item found in a Graph response: its key, its
+ * content types, its URL path and its parent.
+ */
+export function contentTags(value: unknown): string[] {
+  const keys = new Set<string>();
+  const types = new Set<string>();
+  const paths = new Set<string>();
+  const containers = new Set<string>();
+
+  const visit = (node: any, depth: number): void => {
+    if (!node || typeof node !== 'object' || depth > MAX_TAG_DEPTH) return;
+    if (Array.isArray(node)) {
+      node.forEach(item => visit(item, depth + 1));
+      return;
+    }
+
+    const metadata = node._metadata;
+    if (metadata && typeof metadata === 'object') {
+      if (typeof metadata.key === 'string') keys.add(metadata.key);
+      if (typeof metadata.container === 'string' && metadata.container) containers.add(metadata.container);
+      for (const type of Array.isArray(metadata.types) ? metadata.types : []) {
+        if (typeof type === 'string') types.add(type);
+      }
+      for (const url of [metadata.url?.hierarchical, metadata.url?.default]) {
+        if (typeof url === 'string' && url) paths.add(url);
+      }
+    }
+    if (typeof node.__typename === 'string' && !node.__typename.startsWith('_') && metadata) {
+      types.add(node.__typename);
+    }
+
+    for (const [field, child] of Object.entries(node)) {
+      if (field !== '_metadata') visit(child, depth + 1);
+    }
+  };
+
+  visit(value, 0);
+  return targetTags({ keys: [...keys], types: [...types], paths: [...paths], containers: [...containers] });
+}
+
+function toList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((item): item is string => typeof item === 'string' && item.length > 0);
+}
+
+/**
+ * Read the invalidation targets from a webhook payload. Optimizely Graph
+ * events ({ type: { subject, action }, data: { docId } }) are understood, as
+ * is a plain { keys, types, paths } body (singular names work too, at the top
+ * level or under data) for CMS webhooks and custom senders.
+ */
+export function parseWebhookEvent(payload: any): InvalidationTargets {
+  const data = payload?.data && typeof payload.data === 'object' ? payload.data : {};
+  const sources = [payload ?? {}, data];
+  const collect = (...fields: string[]) =>
+    sources.flatMap(source => fields.flatMap(field => toList(source[field])));
+
+  const keys = collect('keys', 'key', 'contentKey', 'contentKeys', 'docId', 'docIds');
+  for (const source of sources) {
+    const link = source.contentLink;
+    if (link && typeof link === 'object') keys.push(...toList(link.key ?? link.guidValue));
+  }
+
+  const subject = typeof payload?.type === 'object' ? payload.type?.subject : undefined;
+  return {
+    keys: Array.from(new Set(keys)),
+    types: Array.from(new Set(collect('types', 'contentType', 'contentTypes'))),
+    paths: Array.from(new Set(collect('paths', 'path', 'url', 'urls'))),
+    containers: Array.from(new Set(collect('containers', 'container'))),
+    // A finished bulk sync does not say which documents changed
+    all: payload?.all === true || subject === 'bulk'
+  };
+}
+
+export function isEmptyTargets(targets: InvalidationTargets): boolean {
+  return !targets.all && targets.keys.length === 0 && targets.types.length === 0 &&
+    targets.paths.length === 0 && targets.containers.length === 0;
+}
+
+// How far a webhook timestamp may be from the server clock
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Check an HMAC-SHA256 signature of "<timestamp>.<raw body>". The header may
+ * be the hex digest or "sha256=<hex>"; the timestamp is in Unix seconds and
+ * must be within WEBHOOK_TOLERANCE_SECONDS of now, so a captured request
+ * cannot be replayed later.
+ */
+export function verifyWebhookSignature(
+  body: Buffer,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) return false;
+  const provided = signature.trim().replace(/^sha256=/i, '');
+  const expected = createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+  const providedBuffer = Buffer.from(provided.toLowerCase(), 'utf8');
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+// For senders that cannot sign (only with WEBHOOK_ALLOW_QUERY_TOKEN): a shared token, compared in constant time
+export function verifyWebhookToken(token: string | null | undefined, secret: string): boolean {
+  if (!token) return false;
+  const providedBuffer = Buffer.from(token, 'utf8');
+  const expectedBuffer = Buffer.from(secret, 'utf8');
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+/**
+ * Drop cached entries for the targets in each environment's cache (the
+ * current request's when none are given); returns the number of entries
+ * removed per environment.
+ */
+export function invalidateCache(
+  targets: InvalidationTargets,
+  environments?: string[],
+  options: { holdSeconds?: number } = {}
+): Record<string, number> {
+  const tags = targets.all ? [GRAPH_TAG] : targetTags(targets);
+  const removed: Record<string, number> = {};
+
+  for (const environment of environments ?? [undefined]) {
+    removed[environment ?? 'current'] = getCacheManager(environment).invalidateTags(tags, options.holdSeconds);
+  }
+
+  getLogger().info(`Cache invalidation (${tags.length} tags) removed ${Object.values(removed).reduce((a, b) => a + b, 0)} entries`);
+  return removed;
+}
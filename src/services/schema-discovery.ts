@@ -107,7 +107,8 @@ export class SchemaDiscoveryService {
   }
 
   /**
-   * Fetch introspection data with caching
+   * Fetch introspection data with caching; services initializing at the
+   * same time share one request
    */
   private async fetchIntrospection(): Promise<IntrospectionQuery> {
     return await withCache(
@@ -423,9 +424,9 @@ export class SchemaDiscoveryService {
 }
 
 /**
- * Singleton instance management
+ * Instance management - one service per Graph endpoint
  */
-let schemaDiscoveryInstance: SchemaDiscoveryService | null = null;
+const schemaDiscoveryInstances = new Map<string, SchemaDiscoveryService>();
 
 /**
  * Get or create schema discovery service instance
@@ -433,18 +434,20 @@ let schemaDiscoveryInstance: SchemaDiscoveryService | null = null;
 export async function getSchemaDiscoveryService(
   config: GraphConfig
 ): Promise<SchemaDiscoveryService> {
+  let schemaDiscoveryInstance = schemaDiscoveryInstances.get(config.endpoint);
   if (!schemaDiscoveryInstance) {
     const client = new OptimizelyGraphClient(config);
     schemaDiscoveryInstance = new SchemaDiscoveryService(client);
     await schemaDiscoveryInstance.initialize();
+    schemaDiscoveryInstances.set(config.endpoint, schemaDiscoveryInstance);
   }
   
   return schemaDiscoveryInstance;
 }
 
 /**
- * Clear the cached schema discovery instance
+ * Clear the cached schema discovery instances
  */
 export function clearSchemaDiscoveryCache(): void {
-  schemaDiscoveryInstance = null;
+  schemaDiscoveryInstances.clear();
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+/**
+ * Asset and media tools
+ *
+ * Media (images, videos, documents) are content items with a media base type,
+ * stored in asset folders. Uploads go through the Content Management API as
+ * multipart requests; listing and usage checks walk the content tree.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from '../../types/tools.js';
+import { getCMAConfig } from '../../config.js';
+import {
+  executeAssetUpload,
+  executeAssetUpdateMetadata,
+  executeAssetList,
+  executeAssetFindUnused
+} from '../../logic/assets/operations.js';
+
+export function getAssetTools(): Tool[] {
+  return [
+    {
+      name: 'asset-upload',
+      description: 'Upload an image, video or file into a media folder. Provide a local filePath or base64 data (plain or a data: URI) with a fileName. The media content type is picked from the file type unless contentType is given.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filePath: {
+            type: 'string',
+            description: 'Path of a local file to upload, relative to the server\'s UPLOAD_ROOT (refused when UPLOAD_ROOT is not set)'
+          },
+          base64: {
+            type: 'string',
+            description: 'File contents as base64 or a data: URI (alternative to filePath)'
+          },
+          fileName: {
+            type: 'string',
+            description: 'File name, required with base64 (defaults to the name of filePath)'
+          },
+          container: {
+            type: 'string',
+            description: 'Key of the media folder to upload into'
+          },
+          contentType: {
+            type: 'string',
+            description: 'Media content type to create (e.g. "ImageFile"); inferred from the file type if omitted'
+          },
+          displayName: {
+            type: 'string',
+            description: 'Display name (defaults to the file name)'
+          },
+          altText: {
+            type: 'string',
+            description: 'Alternative text for images'
+          },
+          description: {
+            type: 'string',
+            description: 'Description of the asset'
+          },
+          properties: {
+            type: 'object',
+            description: 'Additional properties of the media type',
+            additionalProperties: true
+          },
+          locale: {
+            type: 'string',
+            description: 'Locale, for localized media types'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Preview the upload request without sending it',
+            default: false
+          }
+        },
+        required: ['container'],
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'asset-update-metadata',
+      description: 'Set the alt text, description, display name or other properties of an existing asset',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          assetKey: {
+            type: 'string',
+            description: 'Key of the asset to update'
+          },
+          altText: {
+            type: 'string',
+            description: 'New alternative text'
+          },
+          description: {
+            type: 'string',
+            description: 'New description'
+          },
+          displayName: {
+            type: 'string',
+            description: 'New display name'
+          },
+          properties: {
+            type: 'object',
+            description: 'Other properties to update',
+            additionalProperties: true
+          },
+          locale: {
+            type: 'string',
+            description: 'Locale, for localized media types'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Preview the update request without sending it',
+            default: false
+          }
+        },
+        required: ['assetKey'],
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'asset-list',
+      description: 'List the media and sub-folders in a media folder',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          folderKey: {
+            type: 'string',
+            description: 'Key of the media folder'
+          },
+          includeFolders: {
+            type: 'boolean',
+            description: 'Include sub-folders in the result',
+            default: true
+          },
+          limit: {
+            type: 'integer',
+            description: 'Maximum number of items to return',
+            default: 100
+          }
+        },
+        required: ['folderKey'],
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'asset-find-unused',
+      description: 'Find media below a folder that no content under the scanned roots references. Only references by content key are detected; when the content scan hits maxItems/maxDepth, candidates are reported as unverified instead of unused.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          folderKey: {
+            type: 'string',
+            description: 'Key of the media folder to check (sub-folders are included)'
+          },
+          scanRootKeys: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Keys of the content trees to search for references (e.g. the start page and shared blocks folder)'
+          },
+          maxDepth: {
+            type: 'integer',
+            description: 'Maximum depth to walk below each root',
+            default: 10
+          },
+          maxItems: {
+            type: 'integer',
+            description: 'Maximum number of items to read per tree',
+            default: 500
+          }
+        },
+        required: ['folderKey', 'scanRootKeys'],
+        additionalProperties: false
+      }
+    }
+  ];
+}
+
+export function registerAssetHandlers(
+  handlers: Map<string, (params: any, context: ToolContext) => Promise<any>>
+): void {
+  const cmaConfig = (context: ToolContext) => getCMAConfig(context.config);
+
+  handlers.set('asset-upload', async (params, context) =>
+    executeAssetUpload(cmaConfig(context), params)
+  );
+
+  handlers.set('asset-update-metadata', async (params, context) =>
+    executeAssetUpdateMetadata(cmaConfig(context), params)
+  );
+
+  handlers.set('asset-list', async (params, context) =>
+    executeAssetList(cmaConfig(context), params)
+  );
+
+  handlers.set('asset-find-unused', async (params, context) =>
+    executeAssetFindUnused(cmaConfig(context), params)
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Audit log tools
+ *
+ * Every write made through the Content Management API client is recorded with
+ * the calling tool, its arguments and the before/after state of the content.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from '../../types/tools.js';
+import { executeAuditQuery } from '../../logic/audit/operations.js';
+
+export function getAuditTools(): Tool[] {
+  return [
+    {
+      name: 'audit-query',
+      description: 'Search the audit log of content changes made through this server (newest first). Filter by tool, content key, operation, environment, outcome or time range.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool: {
+            type: 'string',
+            description: 'Only entries written by this tool (e.g. "content-update")'
+          },
+          contentKey: {
+            type: 'string',
+            description: 'Only entries that touched this content key'
+          },
+          operationId: {
+            type: 'string',
+            description: 'Only entries from one tool call'
+          },
+          environment: {
+            type: 'string',
+            description: 'Only entries for this environment profile'
+          },
+          outcome: {
+            type: 'string',
+            enum: ['success', 'failure'],
+            description: 'Only successful or only failed writes'
+          },
+          since: {
+            type: 'string',
+            description: 'ISO 8601 timestamp; only entries at or after this time'
+          },
+          until: {
+            type: 'string',
+            description: 'ISO 8601 timestamp; only entries at or before this time'
+          },
+          limit: {
+            type: 'integer',
+            description: 'Maximum number of entries to return',
+            default: 20
+          },
+          includeSnapshots: {
+            type: 'boolean',
+            description: 'Include request bodies and before/after snapshots',
+            default: false
+          }
+        },
+        additionalProperties: false
+      }
+    }
+  ];
+}
+
+export function registerAuditHandlers(
+  handlers: Map<string, (params: any, context: ToolContext) => Promise<any>>
+): void {
+  handlers.set('audit-query', async (params) =>
+    executeAuditQuery(params)
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Composite (bulk) tools
+ *
+ * Apply one change to many content items. Targets come from explicit keys or a
+ * Graph filter; each call processes one batch and returns a continuation token
+ * for the rest. Clients that send a progress token get progress notifications.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from '../../types/tools.js';
+import {
+  executeContentBulkUpdate,
+  executeContentBulkPublish
+} from '../../logic/composite/bulk.js';
+
+// Target selection and batching options shared by every bulk tool
+const bulkTargetProperties = {
+  where: {
+    type: 'object',
+    description: 'Optimizely Graph _Content where filter, e.g. { "_metadata": { "url": { "hierarchical": { "startsWith": "/en/news/" } } } }',
+    additionalProperties: true
+  },
+  contentTypes: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only content of these types (combined with where)'
+  },
+  keys: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Explicit content keys instead of a filter (requires locale)'
+  },
+  locale: {
+    type: 'string',
+    description: 'Locale to operate on (e.g. "en")'
+  },
+  maxItems: {
+    type: 'integer',
+    description: 'Maximum number of matching items for the whole run (at most 1000)',
+    default: 500
+  },
+  batchSize: {
+    type: 'integer',
+    description: 'Items processed per call; the rest is returned as a continuationToken',
+    default: 50
+  },
+  concurrency: {
+    type: 'integer',
+    description: 'Parallel requests to the Content Management API (1-10)',
+    default: 4
+  },
+  continuationToken: {
+    type: 'string',
+    description: 'Token from a previous call to continue the same run in the same environment (filter and changes are taken from the token); valid for one hour'
+  },
+  dryRun: {
+    type: 'boolean',
+    description: 'Only report the matching items without changing anything',
+    default: false
+  }
+};
+
+export function getCompositeTools(): Tool[] {
+  return [
+    {
+      name: 'content-bulk-update',
+      description: 'Apply the same property or display name change to every item matching a Graph filter or list of keys. Drafts are edited in place; published items get a new draft with the change. Processes one batch per call with per-item results; call again with the continuationToken to continue.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...bulkTargetProperties,
+          properties: {
+            type: 'object',
+            description: 'Properties to set on every item (merged into the latest version)',
+            additionalProperties: true
+          },
+          displayName: {
+            type: 'string',
+            description: 'Display name to set on every item'
+          }
+        },
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'content-bulk-publish',
+      description: 'Publish the latest version of every item matching a Graph filter or list of keys. Already published items are skipped. Processes one batch per call; call again with the continuationToken to continue.',
+      inputSchema: {
+        type: 'object',
+        properties: bulkTargetProperties,
+        additionalProperties: false
+      }
+    }
+  ];
+}
+
+export function registerCompositeHandlers(
+  handlers: Map<string, (params: any, context: ToolContext) => Promise<any>>
+): void {
+  handlers.set('content-bulk-update', async (params, context) =>
+    executeContentBulkUpdate(context.config, params, context.progress)
+  );
+
+  handlers.set('content-bulk-publish', async (params, context) =>
+    executeContentBulkPublish(context.config, params, context.progress)
+  );
+}
@@ -34,6 +34,12 @@ import {
   executeContentListLanguages,
   executeContentCreateLanguageBranch
 } from '../../logic/content/versions.js';
+import { executeContentPromoteTree } from '../../logic/content/promote.js';
+import { executeContentUndo } from '../../logic/content/undo.js';
+import { executeContentExport } from '../../logic/content/export.js';
+import { executeContentImport } from '../../logic/content/import.js';
+import { executeContentImportDocument } from '../../logic/content/document-import.js';
+import { contentOutputProperties } from '../../logic/content/render.js';
 import {
   executeTypeList,
   executeTypeGet,
@@ -58,10 +64,25 @@ export function getContentTools(): Tool[] {
     // Site Information Tools
     {
       name: 'content-site-info',
-      description: 'Get guidance on finding container GUIDs and using the Content Management API',
+      description: 'Discover sites, start pages, top-level pages and block/media folders as a tree with keys, content types and allowed child types. Use it to pick a container for content-create.',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          locale: {
+            type: 'string',
+            description: 'Only discover content in this locale (default: all locales)'
+          },
+          maxFolders: {
+            type: 'integer',
+            description: 'Maximum number of folders to include',
+            default: 200
+          },
+          includePages: {
+            type: 'boolean',
+            description: 'Include the pages directly below each start page',
+            default: true
+          }
+        },
         additionalProperties: false
       }
     },
@@ -112,6 +133,11 @@ export function getContentTools(): Tool[] {
             type: 'string',
             description: 'Content language code (default: "en")',
             default: 'en'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Validate and return the exact request without sending it',
+            default: false
           }
         },
         required: ['name'],
@@ -135,7 +161,8 @@ export function getContentTools(): Tool[] {
           version: {
             type: 'string',
             description: 'Specific version (optional)'
-          }
+          },
+          ...contentOutputProperties
         },
         required: ['contentId'],
         additionalProperties: false
@@ -168,6 +195,11 @@ export function getContentTools(): Tool[] {
             type: 'boolean',
             description: 'Create new version (optional)',
             default: false
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Validate and return the exact request without sending it',
+            default: false
           }
         },
         required: ['contentId'],
@@ -212,6 +244,11 @@ export function getContentTools(): Tool[] {
           language: {
             type: 'string',
             description: 'Language branch (optional)'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Validate and return the exact request without sending it',
+            default: false
           }
         },
         required: ['contentId', 'patches'],
@@ -237,6 +274,11 @@ export function getContentTools(): Tool[] {
             type: 'boolean',
             description: 'Delete child content',
             default: false
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Validate and return the exact request without sending it',
+            default: false
           }
         },
         required: ['contentId'],
@@ -261,6 +303,11 @@ export function getContentTools(): Tool[] {
             type: 'boolean',
             description: 'Create URL redirect',
             default: false
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Validate and return the exact request without sending it',
+            default: false
           }
         },
         required: ['contentId', 'targetId'],
@@ -289,13 +336,250 @@ export function getContentTools(): Tool[] {
           newName: {
             type: 'string',
             description: 'Name for the copy (optional)'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Validate and return the exact request without sending it',
+            default: false
           }
         },
         required: ['contentId', 'targetId'],
         additionalProperties: false
       }
     },
-    
+    {
+      name: 'content-promote-tree',
+      description: 'Copy a content subtree from one environment to another (e.g. staging to production). Maps content keys, rewrites references between the copied items and runs as a dry run with a per-item diff unless dryRun is false',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          rootKey: {
+            type: 'string',
+            description: 'Key (GUID) of the root content item in the source environment'
+          },
+          sourceEnvironment: {
+            type: 'string',
+            description: 'Environment to read from (defaults to the environment of this call)'
+          },
+          targetEnvironment: {
+            type: 'string',
+            description: 'Environment to write to'
+          },
+          targetContainer: {
+            type: 'string',
+            description: 'Container key in the target for the root item (defaults to the source root\'s container)'
+          },
+          locales: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Locales to promote (defaults to all locales of each item)'
+          },
+          maxDepth: {
+            type: 'integer',
+            description: 'How many levels below the root to include',
+            default: 10
+          },
+          maxItems: {
+            type: 'integer',
+            description: 'Maximum number of items to promote',
+            default: 200
+          },
+          keyStrategy: {
+            type: 'string',
+            enum: ['preserve', 'generate'],
+            description: 'preserve: reuse source keys and update existing target items; generate: always create new items with new keys',
+            default: 'preserve'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Only report the planned operations and diffs',
+            default: true
+          }
+        },
+        required: ['rootKey', 'targetEnvironment'],
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'content-export',
+      description: 'Export a content subtree with all language branches to a portable archive (JSON or NDJSON) for review or backup. The manifest lists content type fingerprints, referenced media and references outside the subtree.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          rootKey: {
+            type: 'string',
+            description: 'Key of the root content item'
+          },
+          rootPath: {
+            type: 'string',
+            description: 'Hierarchical URL path of the root instead of a key (e.g. "/en/news/")'
+          },
+          locales: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Locales to export (defaults to all language branches)'
+          },
+          maxDepth: {
+            type: 'integer',
+            description: 'How many levels below the root to include',
+            default: 10
+          },
+          maxItems: {
+            type: 'integer',
+            description: 'Maximum number of items to export',
+            default: 500
+          },
+          discovery: {
+            type: 'string',
+            enum: ['graph', 'cma'],
+            description: 'graph: find descendants through Optimizely Graph (published content); cma: walk the Content Management API (includes unpublished items)',
+            default: 'graph'
+          },
+          outputPath: {
+            type: 'string',
+            description: 'File to write the archive to, relative to the server\'s EXPORT_DIR; the archive is returned inline when omitted'
+          },
+          format: {
+            type: 'string',
+            enum: ['json', 'ndjson'],
+            description: 'Archive file format (defaults from the file extension: .ndjson/.jsonl or .json)'
+          }
+        },
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'content-import',
+      description: 'Recreate the content of an archive written by content-export. Items are created parent-first as drafts and references between archived items are rewritten to the keys in the target. Progress is saved to a checkpoint file so a failed or interrupted import resumes when run again.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          archivePath: {
+            type: 'string',
+            description: 'Path of the archive file (.json or .ndjson), relative to the server\'s EXPORT_DIR'
+          },
+          targetContainer: {
+            type: 'string',
+            description: 'Key of the container to import the archive root into (defaults to the container it was exported from)'
+          },
+          conflictStrategy: {
+            type: 'string',
+            enum: ['skip', 'overwrite', 'create-new'],
+            description: 'When an item with the same key exists in the target: skip leaves it unchanged, overwrite adds a new draft version with the archived content, create-new creates a copy with a new key',
+            default: 'skip'
+          },
+          locales: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Locales to import (defaults to all in the archive)'
+          },
+          checkpointPath: {
+            type: 'string',
+            description: 'Checkpoint file inside EXPORT_DIR (defaults to <archivePath>.checkpoint.json); removed once the import completes'
+          },
+          resume: {
+            type: 'boolean',
+            description: 'Continue from an existing checkpoint file',
+            default: true
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Plan the import without writing anything',
+            default: false
+          }
+        },
+        required: ['archivePath'],
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'content-import-document',
+      description: 'Create a content item from a Markdown or HTML document. The title (first h1), intro (first paragraph), body and Markdown front matter are mapped onto the content type\'s properties; HTML is sanitized for rich text properties. The parent is found by name. Use dryRun to preview the mapping.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          parentName: {
+            type: 'string',
+            description: 'Name of the parent page or folder to create the item under'
+          },
+          contentType: {
+            type: 'string',
+            description: 'Content type to create (e.g. "ArticlePage")'
+          },
+          document: {
+            type: 'string',
+            description: 'The Markdown or HTML source'
+          },
+          filePath: {
+            type: 'string',
+            description: 'Path of a .md or .html file instead of document, relative to the server\'s EXPORT_DIR'
+          },
+          format: {
+            type: 'string',
+            enum: ['markdown', 'html'],
+            description: 'Source format (detected from the file extension or content when omitted)'
+          },
+          name: {
+            type: 'string',
+            description: 'Name of the new item (defaults to the document title)'
+          },
+          language: {
+            type: 'string',
+            description: 'Language of the new item',
+            default: 'en'
+          },
+          fieldMapping: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              intro: { type: 'string' },
+              body: { type: 'string' }
+            },
+            description: 'Property names to use for the title, intro and body instead of the detected ones'
+          },
+          autoConfirm: {
+            type: 'boolean',
+            description: 'Use the first match when several items match parentName',
+            default: false
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Return the mapped properties without creating anything',
+            default: false
+          }
+        },
+        required: ['parentName', 'contentType'],
+        additionalProperties: false
+      }
+    },
+    {
+      name: 'content-undo',
+      description: 'Revert a content change made through this server, using the before-state stored in the audit log. Restores properties, moves items back, restores deleted items from the recycle bin or deletes created items/versions. Refuses when the content was edited since, unless force is true. Find IDs with audit-query.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          auditId: {
+            type: 'string',
+            description: 'Audit entry ID of a single write to revert'
+          },
+          operationId: {
+            type: 'string',
+            description: 'Revert every write made by one tool call'
+          },
+          force: {
+            type: 'boolean',
+            description: 'Revert even if the content changed after the original write',
+            default: false
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Show the undo plan and conflicts without sending anything',
+            default: false
+          }
+        },
+        additionalProperties: false
+      }
+    },    
     // Version Management
     {
       name: 'content-list-versions',
@@ -562,8 +846,8 @@ export function registerContentHandlers(
   const cmaConfig = (context: ToolContext) => getCMAConfig(context.config);
 
   // Site information handlers
-  handlers.set('content-site-info', async (params, context) => 
-    executeGetSiteInfo(cmaConfig(context), params)
+  handlers.set('content-site-info', async (params, context) =>
+    executeGetSiteInfo(context.config, params)
   );
   
   handlers.set('content-test-api', async (params, context) => 
@@ -615,6 +899,26 @@ export function registerContentHandlers(
   handlers.set('content-copy', async (params, context) => 
     executeContentCopy(cmaConfig(context), params)
   );
+
+  handlers.set('content-promote-tree', async (params, context) =>
+    executeContentPromoteTree(context.config, params)
+  );
+
+  handlers.set('content-export', async (params, context) =>
+    executeContentExport(context.config, params)
+  );
+
+  handlers.set('content-import', async (params, context) =>
+    executeContentImport(context.config, params, context.progress)
+  );
+
+  handlers.set('content-import-document', async (params, context) =>
+    executeContentImportDocument(context.config, params)
+  );
+
+  handlers.set('content-undo', async (params, context) =>
+    executeContentUndo(context.config, params)
+  );
   
   // Version management handlers
   handlers.set('content-list-versions', async (params, context) => 
@@ -32,6 +32,7 @@ import {
   executeGraphGetAncestors,
   executeGraphFacetedSearch
 } from '../../logic/graph/search.js';
+import { contentOutputProperties } from '../../logic/content/render.js';
 
 export function getGraphTools(): Tool[] {
   return [
@@ -224,7 +225,8 @@ export function getGraphTools(): Tool[] {
           includeRelated: {
             type: 'boolean',
             description: 'Include related content'
-          }
+          },
+          ...contentOutputProperties
         },
         required: ['id'],
         additionalProperties: false
@@ -248,7 +250,8 @@ export function getGraphTools(): Tool[] {
             type: 'array',
             items: { type: 'string' },
             description: 'Specific fields to return'
-          }
+          },
+          ...contentOutputProperties
         },
         required: ['path'],
         additionalProperties: false
@@ -297,13 +300,21 @@ export function getGraphTools(): Tool[] {
     },
     {
       name: 'graph-get-ancestors',
-      description: 'Get ancestor hierarchy',
+      description: 'Get the ancestors (breadcrumb) of a content item by key or URL path, root first, with names, types and URLs',
       inputSchema: {
         type: 'object',
         properties: {
           contentId: {
             type: 'string',
-            description: 'Content ID'
+            description: 'Content key'
+          },
+          path: {
+            type: 'string',
+            description: 'Hierarchical URL path instead of a key (e.g. "/en/news/article/")'
+          },
+          locale: {
+            type: 'string',
+            description: 'Locale (defaults to the locale of the item found)'
           },
           levels: {
             type: 'integer',
@@ -313,7 +324,6 @@ export function getGraphTools(): Tool[] {
             description: 'Maximum levels to traverse'
           }
         },
-        required: ['contentId'],
         additionalProperties: false
       }
     },
@@ -4,6 +4,8 @@ import { OptimizelyContentClient } from '../../clients/cma-client.js';
 import { Config } from '../../types/config.js';
 import { handleError, ValidationError } from '../../utils/errors.js';
 import { SimpleQueryBuilder } from '../../logic/graph/simple-query-builder.js';
+import { renderContent, ContentOutputSchema } from '../../logic/content/render.js';
+import { validateInput } from '../../utils/validation.js';
 
 /**
  * Helper tool that combines graph-get-content-by-path and content-get
@@ -19,6 +21,7 @@ export async function executeGetFullContentByPath(
     if (!path) {
       throw new ValidationError('Path is required. Example: {"path": "/"}');
     }
+    const output = validateInput(ContentOutputSchema, params);
     
     // Step 1: Get content metadata from Graph to find the ID
     const graphClient = new OptimizelyGraphClient({
@@ -72,6 +75,19 @@ export async function executeGetFullContentByPath(
     
     const fullContent = await cmaClient.get(`/experimental/content/${contentId}`);
     
+    if (output.format && output.format !== 'json') {
+      return {
+        content: [{
+          type: 'text',
+          text: renderContent({ _metadata: contentItem._metadata, ...(fullContent as object) }, {
+            format: output.format,
+            maxFieldLength: output.maxFieldLength,
+            fullValueHint: `get-full-content-by-path {"path": "${path}", "locale": "${locale}"}`
+          })
+        }]
+      };
+    }
+
     return {
       content: [{
         type: 'text',
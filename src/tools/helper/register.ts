@@ -1,4 +1,5 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { contentOutputProperties } from '../../logic/content/render.js';
 
 export function getHelperTools(): Tool[] {
   return [
@@ -16,7 +17,8 @@ export function getHelperTools(): Tool[] {
             type: 'string',
             description: 'Language locale (default: "en")',
             default: 'en'
-          }
+          },
+          ...contentOutputProperties
         },
         required: ['path'],
         additionalProperties: false
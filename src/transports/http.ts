@@ -0,0 +1,333 @@
+/**
+ * HTTP hosting for the SSE and Streamable HTTP transports
+ *
+ * Every client session gets its own MCP Server instance connected to its own
+ * transport, so one process can serve several assistants behind a gateway.
+ *
+ * Routes:
+ * - streamable-http: POST/GET/DELETE /mcp (session ID in the mcp-session-id header)
+ * - sse: GET /sse opens the event stream, POST /messages?sessionId=... delivers messages
+ * - both: GET /health for load balancer probes
+ * - both: POST /webhooks/cache (WEBHOOK_PATH) invalidates cached Graph results
+ *   when a publish webhook arrives; only enabled with WEBHOOK_SECRET set
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config.js';
+import { getLogger } from '../utils/logger.js';
+import { cacheSettingsFromConfig, configureCache, getCacheNamespaces } from '../utils/cache.js';
+import {
+  invalidateCache,
+  isEmptyTargets,
+  parseWebhookEvent,
+  verifyWebhookSignature,
+  verifyWebhookToken,
+  WEBHOOK_TOLERANCE_SECONDS
+} from '../services/cache-invalidation.js';
+import { createTransport } from './index.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SIGNATURE_HEADER = 'x-webhook-signature';
+const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+interface Session {
+  server: Server;
+  transport: Transport;
+}
+
+export interface HttpServerHandle {
+  port: number;
+  host: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+export async function startHttpServer(
+  config: Config,
+  createSessionServer: () => Promise<Server>
+): Promise<HttpServerHandle> {
+  const logger = getLogger();
+  const transportType = config.server.transport;
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn(`Failed to close session ${sessionId}:`, error);
+    }
+    logger.info(`Session closed: ${sessionId} (${sessions.size} active)`);
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = await createSessionServer();
+    const transport = createTransport('streamable-http', {
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { server, transport });
+        logger.info(`Session opened: ${newSessionId} (${sessions.size} active)`);
+      },
+      onsessionclosed: (closedSessionId) => closeSession(closedSessionId)
+    }) as StreamableHTTPServerTransport;
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (_req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const server = await createSessionServer();
+    const transport = createTransport('sse', {
+      endpoint: SSE_MESSAGES_PATH,
+      response: res
+    }) as SSEServerTransport;
+
+    sessions.set(transport.sessionId, { server, transport });
+    logger.info(`Session opened: ${transport.sessionId} (${sessions.size} active)`);
+
+    res.on('close', () => {
+      void closeSession(transport.sessionId);
+    });
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    const body = await readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  };
+
+  const webhookSecret = config.server.webhookSecret;
+  if (webhookSecret) {
+    // Webhooks may arrive before any session has set up the caches
+    configureCache(cacheSettingsFromConfig(config.options));
+  }
+
+  // Signatures accepted within the tolerance window, with their expiry; a repeat is a replay
+  const seenSignatures = new Map<string, number>();
+
+  const handleWebhook = async (req: IncomingMessage, res: ServerResponse, url: URL, secret: string): Promise<void> => {
+    const body = await readBody(req);
+    const signature = headerValue(req, SIGNATURE_HEADER);
+    const signed = verifyWebhookSignature(body, signature, headerValue(req, TIMESTAMP_HEADER), secret) ||
+      (config.server.webhookAllowQueryToken && verifyWebhookToken(url.searchParams.get('token'), secret));
+    if (!signed) {
+      logger.warn('Rejected cache webhook with a missing, expired or invalid signature');
+      sendJson(res, 401, { error: 'Invalid webhook signature' });
+      return;
+    }
+
+    if (signature) {
+      const digest = signature.trim().replace(/^sha256=/i, '').toLowerCase();
+      const now = Date.now();
+      for (const [seen, expiresAt] of seenSignatures) {
+        if (expiresAt <= now) seenSignatures.delete(seen);
+      }
+      if (seenSignatures.has(digest)) {
+        logger.warn('Rejected a replayed cache webhook');
+        sendJson(res, 401, { error: 'Webhook already received' });
+        return;
+      }
+      seenSignatures.set(digest, now + 2 * WEBHOOK_TOLERANCE_SECONDS * 1000);
+    }
+
+    const targets = parseWebhookEvent(parseJson(body));
+    if (isEmptyTargets(targets)) {
+      sendJson(res, 202, { ignored: 'The event names no content keys, types or paths' });
+      return;
+    }
+
+    const environment = url.searchParams.get('environment');
+    if (environment && !config.environments[environment]) {
+      sendJson(res, 404, { error: `Unknown environment: ${environment}` });
+      return;
+    }
+    // Without an environment every cache is checked; keys are unique per CMS instance
+    const environments = environment
+      ? [environment]
+      : Array.from(new Set([...Object.keys(config.environments), ...getCacheNamespaces()]));
+
+    sendJson(res, 200, {
+      invalidated: invalidateCache(targets, environments),
+      targets
+    });
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'healthy',
+          transport: transportType,
+          sessions: sessions.size
+        });
+        return;
+      }
+
+      if (webhookSecret && url.pathname === config.server.webhookPath && req.method === 'POST') {
+        await handleWebhook(req, res, url, webhookSecret);
+        return;
+      }
+
+      if (transportType === 'streamable-http' && url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res);
+        return;
+      }
+
+      if (transportType === 'sse' && url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseStream(req, res);
+        return;
+      }
+
+      if (transportType === 'sse' && url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+        return;
+      }
+
+      sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+    } catch (error) {
+      logger.error(`HTTP request failed: ${req.method} ${url.pathname}`, error);
+      if (!res.headersSent) {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : 'Internal server error');
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.server.port, config.server.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : config.server.port;
+  const host = config.server.host;
+  logger.info(`HTTP server listening on http://${host}:${port} (${transportType})`);
+
+  return {
+    port,
+    host,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      logger.info(`Closing ${sessions.size} open session(s)`);
+      await Promise.all(Array.from(sessions.keys()).map(sessionId => closeSession(sessionId)));
+
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        // Drop idle keep-alive connections so close() does not hang
+        httpServer.closeIdleConnections();
+      });
+      logger.info('HTTP server closed');
+    }
+  };
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function parseJson(body: Buffer): unknown {
+  if (body.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return parseJson(await readBody(req));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: {
+      code: status === 400 || status === 413 ? -32600 : -32000,
+      message
+    },
+    id: null
+  });
+}
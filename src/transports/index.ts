@@ -0,0 +1,38 @@
+import type { ServerResponse } from 'node:http';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+export interface TransportOptions {
+  // Streamable HTTP session handling
+  sessionIdGenerator?: () => string;
+  onsessioninitialized?: (sessionId: string) => void | Promise<void>;
+  onsessionclosed?: (sessionId: string) => void | Promise<void>;
+  // SSE needs the endpoint clients POST messages to and the open event stream
+  endpoint?: string;
+  response?: ServerResponse;
+}
+
+export function createTransport(transportType: string, options: TransportOptions = {}): Transport {
+  switch (transportType) {
+    case 'stdio':
+      return new StdioServerTransport();
+
+    case 'streamable-http':
+      return new StreamableHTTPServerTransport({
+        sessionIdGenerator: options.sessionIdGenerator,
+        onsessioninitialized: options.onsessioninitialized,
+        onsessionclosed: options.onsessionclosed
+      });
+
+    case 'sse':
+      if (!options.response) {
+        throw new Error('SSE transport requires an open HTTP response');
+      }
+      return new SSEServerTransport(options.endpoint || '/messages', options.response);
+
+    default:
+      throw new Error(`Unsupported transport: ${transportType}`);
+  }
+}
@@ -1,46 +1,105 @@
 import { z } from 'zod';
 
+export const GraphSettingsSchema = z.object({
+  endpoint: z.string().url(),
+  authMethod: z.enum(['single_key', 'hmac', 'basic', 'bearer', 'oidc']),
+  credentials: z.object({
+    singleKey: z.string().optional(),
+    appKey: z.string().optional(),
+    secret: z.string().optional(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    token: z.string().optional()
+  })
+});
+
+export const CMASettingsSchema = z.object({
+  baseUrl: z.string().url(),
+  clientId: z.string(),
+  clientSecret: z.string(),
+  grantType: z.string().default('client_credentials'),
+  tokenEndpoint: z.string().url().optional(),
+  impersonateUser: z.string().email().optional()
+});
+
+export const EnvironmentProfileSchema = z.object({
+  description: z.string().optional(),
+  graph: GraphSettingsSchema,
+  cma: CMASettingsSchema
+});
+
 export const ConfigSchema = z.object({
   server: z.object({
     name: z.string().default('optimizely-mcp-server'),
     version: z.string().default('1.0.0'),
-    transport: z.enum(['stdio', 'sse', 'streamable-http']).default('stdio')
-  }),
-  graph: z.object({
-    endpoint: z.string().url(),
-    authMethod: z.enum(['single_key', 'hmac', 'basic', 'bearer', 'oidc']),
-    credentials: z.object({
-      singleKey: z.string().optional(),
-      appKey: z.string().optional(),
-      secret: z.string().optional(),
-      username: z.string().optional(),
-      password: z.string().optional(),
-      token: z.string().optional()
-    })
-  }),
-  cma: z.object({
-    baseUrl: z.string().url(),
-    clientId: z.string(),
-    clientSecret: z.string(),
-    grantType: z.string().default('client_credentials'),
-    tokenEndpoint: z.string().url().optional(),
-    impersonateUser: z.string().email().optional()
+    transport: z.enum(['stdio', 'sse', 'streamable-http']).default('stdio'),
+    port: z.number().int().min(0).max(65535).default(3000),
+    host: z.string().default('127.0.0.1'),
+    // Cache invalidation webhook on the HTTP transports; off without a secret
+    webhookPath: z.string().startsWith('/').default('/webhooks/cache'),
+    webhookSecret: z.string().min(16).optional(),
+    // Also accept the secret as ?token=; it ends up in access logs and is not replay-protected
+    webhookAllowQueryToken: z.boolean().default(false)
   }),
+  graph: GraphSettingsSchema,
+  cma: CMASettingsSchema,
+  // Name of the environment profile that graph/cma above belong to
+  environment: z.string().default('default'),
+  // Named environment profiles, selectable per tool call
+  environments: z.record(EnvironmentProfileSchema).default({}),
   options: z.object({
     cacheTtl: z.number().default(300),
+    // memory: lost on restart; file: kept in cacheDir between processes
+    cacheStore: z.enum(['memory', 'file']).default('memory'),
+    cacheDir: z.string().default('./data/cache'),
+    cacheMaxBytes: z.number().int().positive().default(50 * 1024 * 1024),
+    cacheEviction: z.enum(['lru', 'lfu']).default('lru'),
+    // Seconds an expired Graph result is still served while it is refreshed; 0 turns this off
+    cacheStaleWhileRevalidate: z.number().int().min(0).default(0),
     maxRetries: z.number().default(3),
+    // Client-side pacing per API host (requests per second, requests in flight); 0 turns a limit off
+    cmaRateLimit: z.number().min(0).default(10),
+    cmaMaxConcurrency: z.number().int().min(0).default(5),
+    graphRateLimit: z.number().min(0).default(20),
+    graphMaxConcurrency: z.number().int().min(0).default(10),
+    // Consecutive outages before an endpoint fails fast, and seconds until it is probed again; 0 turns it off
+    circuitBreakerThreshold: z.number().int().min(0).default(5),
+    circuitBreakerResetSeconds: z.number().int().positive().default(30),
     timeout: z.number().default(30000),
-    logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info')
+    logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    // json writes one object per line with the tool call's correlation ID
+    logFormat: z.enum(['text', 'json']).default('text'),
+    // Logs also go to this file when set; they always go to stderr
+    logFile: z.string().optional(),
+    // Export OpenTelemetry traces and metrics over OTLP/HTTP
+    telemetry: z.boolean().default(false),
+    telemetryEndpoint: z.string().url().default('http://localhost:4318'),
+    telemetryMetricsInterval: z.number().int().positive().default(15000),
+    // Hide and refuse tools that write to the CMS
+    safeMode: z.boolean().default(false),
+    // Tool name patterns; a trailing * matches a prefix
+    toolAllowlist: z.array(z.string()).default([]),
+    toolDenylist: z.array(z.string()).default([]),
+    // Append-only record of every write made through the CMA client
+    auditLog: z.boolean().default(true),
+    auditLogFile: z.string().default('./data/audit-log.jsonl'),
+    // Local files asset-upload may read; unset refuses filePath uploads
+    uploadRoot: z.string().optional(),
+    // Archives and documents the export/import tools write and read; paths outside are refused
+    exportDir: z.string().default('./data/exports')
   })
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type EnvironmentProfile = z.infer<typeof EnvironmentProfileSchema>;
 
 export interface GraphConfig {
   endpoint: string;
   auth: AuthConfig;
   timeout?: number;
   maxRetries?: number;
+  environment?: string;
+  staleWhileRevalidate?: number;
 }
 
 export interface AuthConfig {
@@ -62,4 +121,7 @@ export interface CMAConfig {
   timeout?: number;
   maxRetries?: number;
   impersonateUser?: string;
+  environment?: string;
+  // Directory asset-upload may read files from; filePath is refused without it
+  uploadRoot?: string;
 }
\ No newline at end of file
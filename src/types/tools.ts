@@ -1,10 +1,14 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
+// Reports progress of a long-running call to the client, if it asked for it
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
 // Tool execution context
 export interface ToolContext {
   config: any;
   logger: any;
   cache: any;
+  progress?: ProgressReporter;
 }
 
 // Tool handler function type
@@ -26,7 +30,8 @@ export enum ToolCategory {
   Types = 'types',
   Workflow = 'workflow',
   Composite = 'composite',
-  Utility = 'utility'
+  Utility = 'utility',
+  Audit = 'audit'
 }
 
 // Common tool result helpers
@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLogger } from './logger.js';
+
+export interface CacheStoreEntry {
+  value: unknown;
+  expiry: number;
+  // Last moment a stale-while-revalidate entry may be served; defaults to expiry
+  staleUntil?: number;
+  tags?: string[];
+}
+
+/**
+ * Where CacheManager keeps entries beyond the life of the process. The cache
+ * itself stays an in-memory map; a store is loaded once when the cache is
+ * created and written through on every change.
+ */
+export interface CacheStore {
+  readonly kind: string;
+  load(): Map<string, CacheStoreEntry>;
+  set(key: string, entry: CacheStoreEntry): void;
+  delete(key: string): void;
+  clear(): void;
+  flush(): Promise<void>;
+  describe(): Record<string, unknown>;
+}
+
+const STORE_VERSION = 1;
+
+// Stores with unsaved changes are written synchronously when the process exits
+const openStores = new Set<FileCacheStore>();
+let exitHookInstalled = false;
+
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.once('exit', () => {
+    for (const store of openStores) {
+      store.flushSync();
+    }
+  });
+}
+
+/**
+ * Only plain JSON survives a round trip through the file; entries holding
+ * Maps, class instances or functions stay in memory only.
+ */
+export function isPersistable(value: unknown, depth = 0): boolean {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return typeof value !== 'number' || Number.isFinite(value);
+  }
+  if (depth > 64 || typeof value !== 'object') {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return value.every(item => isPersistable(item, depth + 1));
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return false;
+  }
+  return Object.values(value as Record<string, unknown>)
+    .every(item => item === undefined || isPersistable(item, depth + 1));
+}
+
+/**
+ * File-backed store: one JSON document per cache namespace. Changes are
+ * batched and written atomically (temp file + rename) shortly after they
+ * happen, so a burst of cache writes costs one disk write.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly kind = 'file';
+  private entries = new Map<string, CacheStoreEntry>();
+  private dirty = false;
+  private timer: NodeJS.Timeout | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private logger = getLogger();
+
+  constructor(private filePath: string, private flushDelayMs: number = 1000) {
+    installExitHook();
+    openStores.add(this);
+  }
+
+  load(): Map<string, CacheStoreEntry> {
+    let data: string;
+    try {
+      data = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(`Could not read cache file ${this.filePath}`, error);
+      }
+      return new Map();
+    }
+
+    try {
+      const snapshot = JSON.parse(data);
+      if (snapshot?.version !== STORE_VERSION || typeof snapshot.entries !== 'object') {
+        throw new Error(`unsupported cache file version ${snapshot?.version}`);
+      }
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(snapshot.entries as Record<string, CacheStoreEntry>)) {
+        if (entry && typeof entry.expiry === 'number' && (entry.staleUntil ?? entry.expiry) > now) {
+          this.entries.set(key, entry);
+        }
+      }
+    } catch (error) {
+      // A corrupt cache is only a cold cache
+      this.logger.warn(`Ignoring cache file ${this.filePath}`, error);
+      this.entries.clear();
+    }
+
+    this.logger.debug(`Loaded ${this.entries.size} cache entries from ${this.filePath}`);
+    return new Map(this.entries);
+  }
+
+  set(key: string, entry: CacheStoreEntry): void {
+    this.entries.set(key, entry);
+    this.schedule();
+  }
+
+  delete(key: string): void {
+    if (this.entries.delete(key)) {
+      this.schedule();
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.schedule();
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.dirty) {
+      return this.writeQueue;
+    }
+    this.dirty = false;
+
+    const data = this.serialize();
+    this.writeQueue = this.writeQueue.then(async () => {
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(temporary, data, 'utf-8');
+        await fs.promises.rename(temporary, this.filePath);
+      } catch (error) {
+        // The cache keeps working from memory; the next change retries
+        this.dirty = true;
+        this.logger.warn(`Could not write cache file ${this.filePath}`, error);
+      }
+    });
+    return this.writeQueue;
+  }
+
+  flushSync(): void {
+    if (!this.dirty) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, this.serialize(), 'utf-8');
+      this.dirty = false;
+    } catch {
+      // Exiting anyway; nothing sensible to do
+    }
+  }
+
+  describe(): Record<string, unknown> {
+    let fileBytes: number | undefined;
+    try {
+      fileBytes = fs.statSync(this.filePath).size;
+    } catch {
+      fileBytes = undefined;
+    }
+    return {
+      kind: this.kind,
+      path: this.filePath,
+      persistedEntries: this.entries.size,
+      fileBytes,
+      pendingWrite: this.dirty
+    };
+  }
+
+  private schedule(): void {
+    this.dirty = true;
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.flushDelayMs);
+    // Never keep the process alive just to write the cache
+    this.timer.unref();
+  }
+
+  private serialize(): string {
+    return JSON.stringify({ version: STORE_VERSION, entries: Object.fromEntries(this.entries) });
+  }
+}
@@ -1,132 +1,464 @@
+import * as path from 'path';
 import { getLogger } from './logger.js';
+import { getRequestContext } from './request-context.js';
+import type { Config } from '../types/config.js';
+import { FileCacheStore, isPersistable, type CacheStore } from './cache-store.js';
+import { recordCacheEviction, recordCacheLookup } from './telemetry.js';
+
+// lru: evict the entry used longest ago; lfu: the one used least often
+export type EvictionPolicy = 'lru' | 'lfu';
 
 interface CacheEntry<T> {
   value: T;
+  // Fresh until expiry; after that served only to stale-while-revalidate callers until staleUntil
   expiry: number;
+  staleUntil: number;
+  // Estimated memory use, counted against maxBytes
+  bytes: number;
+  // Content the value was built from, e.g. key:<guid>, type:<name>, path:<url>
+  tags?: string[];
+  // Number of reads plus one, for LFU eviction
+  frequency: number;
+}
+
+export interface CacheOptions {
+  // Namespace reported in telemetry
+  name?: string;
+  store?: CacheStore;
+  maxBytes?: number;
+  evictionPolicy?: EvictionPolicy;
+}
+
+export interface CacheLookup<T> {
+  value: T;
+  stale: boolean;
+}
+
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  bytes: number;
+  maxBytes: number | null;
+  evictionPolicy: EvictionPolicy;
+  tags: number;
+  ttl: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: number | null;
+  // Loads that joined an identical one already in flight
+  coalesced: number;
+  inFlight: number;
+  evictions: number;
+  expirations: number;
+  store: Record<string, unknown>;
+}
+
+// Rough V8 sizes; close enough to keep the cache within a memory budget
+const OBJECT_OVERHEAD = 32;
+const SLOT_BYTES = 8;
+
+/**
+ * Estimate how much memory a value holds. Walks the value iteratively, so
+ * deep or cyclic structures (and Maps, which JSON would count as "{}") are
+ * measured too.
+ */
+export function estimateBytes(value: unknown): number {
+  const seen = new WeakSet<object>();
+  const pending: unknown[] = [value];
+  let bytes = 0;
+
+  while (pending.length > 0) {
+    const item = pending.pop();
+    if (typeof item === 'string') {
+      bytes += OBJECT_OVERHEAD / 2 + item.length * 2;
+      continue;
+    }
+    if (item === null || typeof item !== 'object') {
+      bytes += SLOT_BYTES;
+      continue;
+    }
+    if (seen.has(item)) {
+      continue;
+    }
+    seen.add(item);
+
+    if (ArrayBuffer.isView(item) || item instanceof ArrayBuffer) {
+      bytes += OBJECT_OVERHEAD + item.byteLength;
+    } else if (item instanceof Map) {
+      bytes += OBJECT_OVERHEAD + item.size * SLOT_BYTES * 3;
+      item.forEach((entryValue, entryKey) => pending.push(entryKey, entryValue));
+    } else if (item instanceof Set) {
+      bytes += OBJECT_OVERHEAD + item.size * SLOT_BYTES * 2;
+      item.forEach(entryValue => pending.push(entryValue));
+    } else if (Array.isArray(item)) {
+      bytes += OBJECT_OVERHEAD + item.length * SLOT_BYTES;
+      pending.push(...item);
+    } else if (item instanceof Date) {
+      bytes += OBJECT_OVERHEAD;
+    } else {
+      const keys = Object.keys(item);
+      bytes += OBJECT_OVERHEAD + keys.length * SLOT_BYTES;
+      for (const key of keys) {
+        pending.push(key, (item as Record<string, unknown>)[key]);
+      }
+    }
+  }
+
+  return bytes;
 }
 
+/**
+ * In-memory cache with TTLs, LRU or LFU eviction by entry count and
+ * estimated bytes, tag-based invalidation and an optional persistent store.
+ * Reads, writes and evictions are O(1): the map's insertion order is the
+ * recency order, and LFU keeps one insertion-ordered bucket per frequency.
+ */
 export class CacheManager {
   private cache = new Map<string, CacheEntry<any>>();
   private ttl: number;
   private maxSize: number;
+  private maxBytes: number;
+  private evictionPolicy: EvictionPolicy;
+  private bytes = 0;
+  private tagIndex = new Map<string, Set<string>>();
+  // Tags whose data is known to be changing; values carrying them are not cached until the time given
+  private heldTags = new Map<string, number>();
+  // LFU: keys by read frequency, least recently used first within a bucket
+  private frequencyBuckets = new Map<number, Set<string>>();
+  private minFrequency = 1;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private metrics = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, evictions: 0, expirations: 0 };
+  private cleanupTimer: NodeJS.Timeout;
+  private store?: CacheStore;
+  private name: string;
   private logger = getLogger();
 
-  constructor(ttlSeconds: number = 300, maxSize: number = 1000) {
+  constructor(ttlSeconds: number = 300, maxSize: number = 1000, options: CacheOptions = {}) {
     this.ttl = ttlSeconds * 1000;
     this.maxSize = maxSize;
-    
-    // Start cleanup timer
-    this.startCleanupTimer();
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.evictionPolicy = options.evictionPolicy ?? 'lru';
+    this.store = options.store;
+    this.name = options.name ?? 'default';
+
+    // Pick up what an earlier process cached
+    if (this.store) {
+      for (const [key, entry] of this.store.load()) {
+        this.insert(key, {
+          value: entry.value,
+          expiry: entry.expiry,
+          staleUntil: entry.staleUntil ?? entry.expiry,
+          bytes: estimateBytes(entry.value),
+          tags: entry.tags,
+          frequency: 1
+        });
+      }
+      this.evictToLimits();
+    }
+
+    // Run cleanup every minute, without keeping the process alive for it
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60000);
+    this.cleanupTimer.unref();
   }
 
-  set<T>(key: string, value: T, customTtl?: number): void {
+  /**
+   * Store a value. With staleSeconds the entry outlives its TTL by that long
+   * for lookup(), so callers can serve it while they fetch a fresh one.
+   */
+  set<T>(key: string, value: T, customTtl?: number, tags?: string[], staleSeconds?: number): void {
     const ttl = customTtl ? customTtl * 1000 : this.ttl;
     const expiry = Date.now() + ttl;
-    
-    // Check cache size and evict oldest if necessary
-    if (this.cache.size >= this.maxSize) {
-      this.evictOldest();
+    const staleUntil = expiry + (staleSeconds ?? 0) * 1000;
+    const bytes = estimateBytes(value);
+
+    if (bytes > this.maxBytes) {
+      this.logger.debug(`Cache skipped: ${key} (${bytes} bytes exceeds the cache limit)`);
+      return;
+    }
+    const heldTag = tags?.find(tag => (this.heldTags.get(tag) ?? 0) > Date.now());
+    if (heldTag) {
+      this.logger.debug(`Cache skipped: ${key} (${heldTag} was just invalidated)`);
+      return;
+    }
+
+    const uniqueTags = tags?.length ? Array.from(new Set(tags)) : undefined;
+    this.remove(key);
+    this.evictToLimits(1, bytes);
+    this.insert(key, { value, expiry, staleUntil, bytes, tags: uniqueTags, frequency: 1 });
+
+    if (this.store && isPersistable(value)) {
+      this.store.set(key, { value, expiry, staleUntil, tags: uniqueTags });
     }
-    
-    this.cache.set(key, { value, expiry });
     this.logger.debug(`Cache set: ${key} (expires in ${ttl}ms)`);
   }
 
   get<T>(key: string): T | null {
+    const entry = this.lookup<T>(key, false);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Like get(), but past its TTL an entry stored with staleSeconds is still
+   * returned, marked stale, until that window ends.
+   */
+  lookup<T>(key: string, allowStale: boolean = true): CacheLookup<T> | null {
     const entry = this.cache.get(key);
-    
-    if (!entry) {
-      this.logger.debug(`Cache miss: ${key}`);
-      return null;
-    }
-    
-    if (Date.now() > entry.expiry) {
-      this.cache.delete(key);
+    const now = Date.now();
+
+    if (entry && now > entry.staleUntil) {
+      this.remove(key);
+      this.metrics.expirations++;
       this.logger.debug(`Cache expired: ${key}`);
-      return null;
+    } else if (entry && (now <= entry.expiry || allowStale)) {
+      const stale = now > entry.expiry;
+      this.touch(key, entry);
+      if (stale) {
+        this.metrics.staleHits++;
+      } else {
+        this.metrics.hits++;
+      }
+      recordCacheLookup(this.name, stale ? 'stale' : 'hit', key);
+      this.logger.debug(`Cache ${stale ? 'stale hit' : 'hit'}: ${key}`);
+      return { value: entry.value as T, stale };
     }
-    
-    this.logger.debug(`Cache hit: ${key}`);
-    return entry.value as T;
+
+    this.metrics.misses++;
+    recordCacheLookup(this.name, 'miss', key);
+    this.logger.debug(`Cache miss: ${key}`);
+    return null;
   }
 
   has(key: string): boolean {
-    const value = this.get(key);
-    return value !== null;
+    const entry = this.cache.get(key);
+    return !!entry && Date.now() <= entry.expiry;
   }
 
   delete(key: string): boolean {
-    const result = this.cache.delete(key);
+    const result = this.remove(key);
     if (result) {
       this.logger.debug(`Cache deleted: ${key}`);
     }
     return result;
   }
 
+  // Remove every entry whose key starts with prefix; returns the number removed
+  deleteByPrefix(prefix: string): number {
+    const keys = Array.from(this.cache.keys()).filter(key => key.startsWith(prefix));
+    for (const key of keys) {
+      this.remove(key);
+    }
+    this.logger.info(`Cache cleared ${keys.length} entries with prefix ${prefix}`);
+    return keys.length;
+  }
+
+  /**
+   * Remove every entry carrying one of the tags; returns the number removed.
+   * With holdSeconds, values with these tags are not cached again for that
+   * long, for sources that only catch up with a change after a delay.
+   */
+  invalidateTags(tags: string[], holdSeconds?: number): number {
+    if (holdSeconds) {
+      const until = Date.now() + holdSeconds * 1000;
+      for (const tag of tags) {
+        this.heldTags.set(tag, Math.max(until, this.heldTags.get(tag) ?? 0));
+      }
+    }
+
+    const keys = new Set<string>();
+    for (const tag of tags) {
+      for (const key of this.tagIndex.get(tag) ?? []) {
+        keys.add(key);
+      }
+    }
+    for (const key of keys) {
+      this.remove(key);
+    }
+    if (keys.size > 0) {
+      this.logger.debug(`Cache invalidated ${keys.size} entries tagged ${tags.join(', ')}`);
+    }
+    return keys.size;
+  }
+
+  /**
+   * Run load for a key unless a load for the same key is already running,
+   * in which case its promise is shared; concurrent misses make one call.
+   */
+  coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.metrics.coalesced++;
+      this.logger.debug(`Cache load joined: ${key}`);
+      return pending as Promise<T>;
+    }
+
+    const promise = load().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
   clear(): void {
     const size = this.cache.size;
     this.cache.clear();
+    this.tagIndex.clear();
+    this.heldTags.clear();
+    this.frequencyBuckets.clear();
+    this.minFrequency = 1;
+    this.bytes = 0;
+    this.store?.clear();
     this.logger.info(`Cache cleared (${size} entries removed)`);
   }
 
+  // Write pending changes to the persistent store, if there is one
+  async flush(): Promise<void> {
+    await this.store?.flush();
+  }
+
+  // Stop the cleanup timer; for caches that are being replaced
+  dispose(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
   size(): number {
     return this.cache.size;
   }
 
   // Get cache statistics
-  getStats(): {
-    size: number;
-    maxSize: number;
-    ttl: number;
-  } {
+  getStats(): CacheStats {
+    const lookups = this.metrics.hits + this.metrics.staleHits + this.metrics.misses;
     return {
       size: this.cache.size,
       maxSize: this.maxSize,
-      ttl: this.ttl / 1000
+      bytes: this.bytes,
+      maxBytes: Number.isFinite(this.maxBytes) ? this.maxBytes : null,
+      evictionPolicy: this.evictionPolicy,
+      tags: this.tagIndex.size,
+      ttl: this.ttl / 1000,
+      ...this.metrics,
+      inFlight: this.inFlight.size,
+      hitRate: lookups > 0 ? Math.round(((this.metrics.hits + this.metrics.staleHits) / lookups) * 1000) / 1000 : null,
+      store: this.store?.describe() ?? { kind: 'memory' }
     };
   }
 
-  // Evict oldest entry when cache is full
-  private evictOldest(): void {
-    let oldestKey: string | null = null;
-    let oldestTime = Infinity;
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.expiry < oldestTime) {
-        oldestTime = entry.expiry;
-        oldestKey = key;
+  private insert(key: string, entry: CacheEntry<any>): void {
+    this.cache.set(key, entry);
+    this.bytes += entry.bytes;
+    for (const tag of entry.tags ?? []) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
       }
+      keys.add(key);
     }
-    
-    if (oldestKey) {
-      this.cache.delete(oldestKey);
-      this.logger.debug(`Cache evicted (oldest): ${oldestKey}`);
+    if (this.evictionPolicy === 'lfu') {
+      this.bucket(entry.frequency).add(key);
+      this.minFrequency = Math.min(this.minFrequency, entry.frequency);
+    }
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.cache.delete(key);
+    this.bytes -= entry.bytes;
+    for (const tag of entry.tags ?? []) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+    if (this.evictionPolicy === 'lfu') {
+      this.unbucket(key, entry.frequency);
+    }
+    this.store?.delete(key);
+    return true;
+  }
+
+  // Record a read: most recently used moves to the end, LFU moves up a bucket
+  private touch(key: string, entry: CacheEntry<any>): void {
+    if (this.evictionPolicy === 'lru') {
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+      return;
+    }
+    this.unbucket(key, entry.frequency);
+    entry.frequency++;
+    this.bucket(entry.frequency).add(key);
+    if (!this.frequencyBuckets.has(this.minFrequency)) {
+      this.minFrequency = entry.frequency;
+    }
+  }
+
+  private bucket(frequency: number): Set<string> {
+    let keys = this.frequencyBuckets.get(frequency);
+    if (!keys) {
+      keys = new Set();
+      this.frequencyBuckets.set(frequency, keys);
+    }
+    return keys;
+  }
+
+  private unbucket(key: string, frequency: number): void {
+    const keys = this.frequencyBuckets.get(frequency);
+    keys?.delete(key);
+    if (keys?.size === 0) {
+      this.frequencyBuckets.delete(frequency);
+    }
+  }
+
+  // Evict entries until the cache has room for the given entries and bytes
+  private evictToLimits(entries: number = 0, bytes: number = 0): void {
+    while (this.cache.size > 0 &&
+      (this.cache.size + entries > this.maxSize || this.bytes + bytes > this.maxBytes)) {
+      const victim = this.nextVictim();
+      this.remove(victim);
+      this.metrics.evictions++;
+      recordCacheEviction(this.name);
+      this.logger.debug(`Cache evicted (${this.evictionPolicy}): ${victim}`);
     }
   }
 
+  private nextVictim(): string {
+    if (this.evictionPolicy === 'lfu') {
+      if (!this.frequencyBuckets.has(this.minFrequency)) {
+        // The lowest bucket was emptied by a removal; bounded by the number of distinct frequencies
+        this.minFrequency = Math.min(...this.frequencyBuckets.keys());
+      }
+      return this.frequencyBuckets.get(this.minFrequency)!.values().next().value as string;
+    }
+    return this.cache.keys().next().value as string;
+  }
+
   // Clean up expired entries periodically
   private cleanup(): void {
     const now = Date.now();
     const expiredKeys: string[] = [];
     
     for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiry) {
+      if (now > entry.staleUntil) {
         expiredKeys.push(key);
       }
     }
     
     for (const key of expiredKeys) {
-      this.cache.delete(key);
+      this.remove(key);
     }
+    this.metrics.expirations += expiredKeys.length;
     
     if (expiredKeys.length > 0) {
       this.logger.debug(`Cache cleanup: removed ${expiredKeys.length} expired entries`);
     }
-  }
 
-  private startCleanupTimer(): void {
-    // Run cleanup every minute
-    setInterval(() => this.cleanup(), 60000);
+    for (const [tag, until] of this.heldTags) {
+      if (now > until) {
+        this.heldTags.delete(tag);
+      }
+    }
   }
 
   // Decorator for caching function results
@@ -165,17 +497,65 @@ export class CacheManager {
   }
 }
 
-// Singleton instance
-let cacheInstance: CacheManager | null = null;
+// One cache per environment profile so dev/test/prod results never mix
+const cacheInstances = new Map<string, CacheManager>();
+
+export interface CacheSettings {
+  store: 'memory' | 'file';
+  directory: string;
+  maxBytes?: number;
+  evictionPolicy?: EvictionPolicy;
+}
+
+let cacheSettings: CacheSettings = { store: 'memory', directory: './data/cache' };
+
+export function cacheSettingsFromConfig(options: Config['options']): CacheSettings {
+  return {
+    store: options.cacheStore,
+    directory: options.cacheDir,
+    maxBytes: options.cacheMaxBytes,
+    evictionPolicy: options.cacheEviction
+  };
+}
+
+/**
+ * Choose where caches keep their entries. Call before the first
+ * getCacheManager(); caches created under other settings are dropped.
+ */
+export function configureCache(settings: CacheSettings): void {
+  if (JSON.stringify(settings) === JSON.stringify(cacheSettings)) {
+    return;
+  }
+  cacheSettings = { ...settings };
+  for (const instance of cacheInstances.values()) {
+    instance.dispose();
+  }
+  cacheInstances.clear();
+}
 
-export function getCacheManager(): CacheManager {
+export function getCacheManager(namespace?: string): CacheManager {
+  const name = namespace || getRequestContext()?.environment || 'default';
+  let cacheInstance = cacheInstances.get(name);
   if (!cacheInstance) {
     const ttl = parseInt(process.env.CACHE_TTL || '300', 10);
-    cacheInstance = new CacheManager(ttl);
+    const fileName = `${name.replace(/[^A-Za-z0-9_-]/g, '_')}.json`;
+    cacheInstance = new CacheManager(ttl, 1000, {
+      name,
+      store: cacheSettings.store === 'file'
+        ? new FileCacheStore(path.join(cacheSettings.directory, fileName))
+        : undefined,
+      maxBytes: cacheSettings.maxBytes,
+      evictionPolicy: cacheSettings.evictionPolicy
+    });
+    cacheInstances.set(name, cacheInstance);
   }
   return cacheInstance;
 }
 
+export function getCacheNamespaces(): string[] {
+  return Array.from(cacheInstances.keys());
+}
+
 // Helper function to create cache keys
 export function createCacheKey(prefix: string, ...parts: any[]): string {
   const sanitizedParts = parts.map(part => {
@@ -188,23 +568,39 @@ export function createCacheKey(prefix: string, ...parts: any[]): string {
   return `${prefix}:${sanitizedParts.join(':')}`;
 }
 
+export interface WithCacheOptions<T> {
+  // Invalidation tags, or a function deriving them from the result
+  tags?: string[] | ((result: T) => string[]);
+  // Serve an expired value for this long while a fresh one is fetched in the background
+  staleWhileRevalidate?: number;
+}
+
 // Cache wrapper for async functions
 export async function withCache<T>(
   key: string,
   fn: () => Promise<T>,
-  ttl?: number
+  ttl?: number,
+  namespace?: string,
+  options: WithCacheOptions<T> = {}
 ): Promise<T> {
-  const cache = getCacheManager();
-  
+  const cache = getCacheManager(namespace);
+
+  // Callers that miss while the value is being fetched share that fetch
+  const load = () => cache.coalesce(key, async (): Promise<T> => {
+    const result = await fn();
+    const tags = typeof options.tags === 'function' ? options.tags(result) : options.tags;
+    cache.set(key, result, ttl, tags, options.staleWhileRevalidate);
+    return result;
+  });
+
   // Try cache first
-  const cached = cache.get<T>(key);
-  if (cached !== null) {
-    return cached;
+  const cached = cache.lookup<T>(key, !!options.staleWhileRevalidate);
+  if (!cached) {
+    return load();
   }
-  
-  // Execute function and cache result
-  const result = await fn();
-  cache.set(key, result, ttl);
-  
-  return result;
+
+  if (cached.stale) {
+    load().catch(error => getLogger().warn(`Background refresh of ${key} failed; serving the stale value`, error));
+  }
+  return cached.value;
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { getLogger } from './logger.js';
+import { CircuitOpenError, OptimizelyError } from './errors.js';
+import type { Config } from '../types/config.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSettings {
+  // Consecutive failures that open the circuit; 0 turns the breaker off
+  failureThreshold: number;
+  // Seconds an open circuit waits before letting a probe request through
+  resetSeconds: number;
+}
+
+export interface CircuitBreakerStats {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  failureThreshold: number;
+  opened: number;
+  rejected: number;
+  retryInSeconds?: number;
+  lastFailure?: string;
+  lastFailureAt?: string;
+}
+
+/**
+ * True for failures that say the endpoint itself is unavailable: network
+ * errors, timeouts and 5xx responses. Client errors (400, 404, 429...) prove
+ * the endpoint is answering and never count against it.
+ */
+export function isOutage(error: any): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof OptimizelyError) {
+    return error.statusCode === 408 || (error.statusCode !== undefined && error.statusCode >= 500);
+  }
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') return true;
+  return error instanceof TypeError && error.message.includes('fetch');
+}
+
+/**
+ * Fails calls fast while an endpoint is down. After failureThreshold
+ * consecutive outages the circuit opens and calls are rejected with
+ * CircuitOpenError instead of waiting for timeouts. Once resetSeconds have
+ * passed, one probe call is let through (half-open): success closes the
+ * circuit, another outage opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+  private opened = 0;
+  private rejected = 0;
+  private lastFailure?: { message: string; at: number };
+
+  constructor(readonly name: string, private settings: CircuitBreakerSettings) {}
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (!(this.settings.failureThreshold > 0)) {
+      return fn();
+    }
+
+    const probe = this.admit();
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isOutage(error)) {
+        this.onFailure(error);
+      } else if (probe) {
+        // The endpoint answered, even if not with a success
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  update(settings: CircuitBreakerSettings): void {
+    this.settings = settings;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.retryInMs() === 0) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getStats(): CircuitBreakerStats {
+    const state = this.getState();
+    return {
+      name: this.name,
+      state,
+      failures: this.failures,
+      failureThreshold: this.settings.failureThreshold,
+      opened: this.opened,
+      rejected: this.rejected,
+      ...(state === 'open' ? { retryInSeconds: Math.ceil(this.retryInMs() / 1000) } : {}),
+      ...(this.lastFailure
+        ? { lastFailure: this.lastFailure.message, lastFailureAt: new Date(this.lastFailure.at).toISOString() }
+        : {})
+    };
+  }
+
+  // Returns true when the call is the half-open probe
+  private admit(): boolean {
+    if (this.getState() === 'closed') {
+      return false;
+    }
+    if (this.getState() === 'half-open' && !this.probing) {
+      this.state = 'half-open';
+      this.probing = true;
+      getLogger().info(`Circuit for ${this.name} is half-open; sending a probe request`);
+      return true;
+    }
+
+    this.rejected++;
+    const retryAfter = Math.max(1, Math.ceil(this.retryInMs() / 1000));
+    const reason = this.lastFailure ? `: ${this.lastFailure.message}` : '';
+    throw new CircuitOpenError(
+      `${this.name} is unavailable after ${this.failures} consecutive failures${reason}. ` +
+        `Requests are paused; try again in ${retryAfter}s.`,
+      this.name,
+      retryAfter
+    );
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      getLogger().info(`Circuit for ${this.name} closed; endpoint is responding again`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  private onFailure(error: any): void {
+    this.failures++;
+    this.lastFailure = { message: error?.message || String(error), at: Date.now() };
+
+    if (this.state === 'half-open' || this.failures >= this.settings.failureThreshold) {
+      if (this.state !== 'open') {
+        this.opened++;
+        getLogger().warn(
+          `Circuit for ${this.name} opened after ${this.failures} failures; failing fast for ${this.settings.resetSeconds}s`
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  private retryInMs(): number {
+    return Math.max(0, this.openedAt + this.settings.resetSeconds * 1000 - Date.now());
+  }
+}
+
+let breakerSettings: CircuitBreakerSettings = { failureThreshold: 5, resetSeconds: 30 };
+
+// One breaker per endpoint, shared by every client that calls it
+const breakers = new Map<string, CircuitBreaker>();
+
+export function circuitBreakerSettingsFromConfig(options: Config['options']): CircuitBreakerSettings {
+  return {
+    failureThreshold: options.circuitBreakerThreshold,
+    resetSeconds: options.circuitBreakerResetSeconds
+  };
+}
+
+export function configureCircuitBreakers(settings: CircuitBreakerSettings): void {
+  breakerSettings = settings;
+  for (const breaker of breakers.values()) {
+    breaker.update(settings);
+  }
+}
+
+/**
+ * The breaker for an endpoint, named after what it guards and the host,
+ * e.g. "graph cg.optimizely.com" or "cma-token api.cms.optimizely.com".
+ */
+export function getCircuitBreaker(kind: string, endpoint: string): CircuitBreaker {
+  let host: string;
+  try {
+    host = new URL(endpoint).host;
+  } catch {
+    host = endpoint;
+  }
+  const name = `${kind} ${host}`;
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, breakerSettings);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+export function getCircuitBreakerStats(): CircuitBreakerStats[] {
+  return Array.from(breakers.values(), breaker => breaker.getStats());
+}
@@ -1,4 +1,7 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext } from './request-context.js';
+import { getLogger } from './logger.js';
+import { isMutatingCall } from './tool-policy.js';
 
 export class OptimizelyError extends Error {
   constructor(
@@ -54,28 +57,235 @@ export class TimeoutError extends OptimizelyError {
   }
 }
 
-export function handleError(error: any): CallToolResult {
-  console.error('Tool execution error:', error);
+// Thrown without contacting an endpoint whose circuit breaker is open
+export class CircuitOpenError extends OptimizelyError {
+  constructor(message: string, endpoint: string, retryAfter: number) {
+    super(message, 'CIRCUIT_OPEN', 503, { endpoint, retryAfter });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class ToolNotAllowedError extends OptimizelyError {
+  constructor(message: string, details?: any) {
+    super(message, 'TOOL_NOT_ALLOWED', 403, details);
+    this.name = 'ToolNotAllowedError';
+  }
+}
+
+export class GraphQLQueryError extends OptimizelyError {
+  constructor(message: string, statusCode?: number, public hints: string[] = []) {
+    super(message, 'GRAPHQL_ERROR', statusCode);
+    this.name = 'GraphQLQueryError';
+  }
+}
+
+export type ErrorCategory =
+  | 'validation'
+  | 'authentication'
+  | 'permission'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limit'
+  | 'timeout'
+  | 'network'
+  | 'upstream'
+  | 'graphql'
+  | 'policy'
+  | 'internal';
+
+export interface ErrorField {
+  // Dotted path of the offending input or content property, e.g. "properties.Title"
+  path: string;
+  issue: 'missing' | 'invalid';
+  message: string;
+}
+
+export interface SuggestedToolCall {
+  tool: string;
+  reason: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Machine-readable description of a failed tool call, returned next to the
+ * human-readable text so assistants can branch on code and category.
+ */
+export interface ErrorEnvelope {
+  code: string;
+  category: ErrorCategory;
+  message: string;
+  status?: number;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+  fields?: ErrorField[];
+  hints?: string[];
+  suggestedTools?: SuggestedToolCall[];
+}
+
+function categorize(error: any): ErrorCategory {
+  if (error instanceof ValidationError) return 'validation';
+  if (error instanceof AuthenticationError) return 'authentication';
+  if (error instanceof NotFoundError) return 'not_found';
+  if (error instanceof RateLimitError) return 'rate_limit';
+  if (error instanceof TimeoutError) return 'timeout';
+  if (error instanceof ToolNotAllowedError) return 'policy';
+  if (error instanceof OptimizelyError) {
+    switch (error.statusCode) {
+      case 401: return 'authentication';
+      case 403: return 'permission';
+      case 404: return 'not_found';
+      case 409:
+      case 412: return 'conflict';
+      case 429: return 'rate_limit';
+    }
+    if (error.statusCode !== undefined && error.statusCode >= 500) return 'upstream';
+    if (error instanceof GraphQLQueryError) return 'graphql';
+    return 'internal';
+  }
+  if (error instanceof TypeError && error.message.includes('fetch')) return 'network';
+  if (error?.response?.errors) return 'graphql';
+  return 'internal';
+}
+
+// "Properties.Title" / "properties.title" / "$.properties.Title" -> "properties.Title"
+function normalizeFieldPath(path: string): string {
+  const trimmed = path.replace(/^\$\.?/, '');
+  return trimmed.replace(/^properties\./i, 'properties.');
+}
+
+function fieldIssue(message: string): ErrorField['issue'] {
+  return /required|missing|must be provided|cannot be (null|empty)/i.test(message) ? 'missing' : 'invalid';
+}
+
+/**
+ * Offending fields from validateInput (zod issues) and from CMA validation
+ * responses, which use problem details ({ errors: { path: [messages] } }) or
+ * a list of { field, message } objects.
+ */
+function extractFields(details: any): ErrorField[] {
+  const fields: ErrorField[] = [];
+  const add = (path: unknown, message: unknown, issue?: ErrorField['issue']) => {
+    if (typeof message !== 'string' || !message) return;
+    const pathText = Array.isArray(path) ? path.join('.') : typeof path === 'string' ? path : '';
+    fields.push({ path: normalizeFieldPath(pathText), issue: issue ?? fieldIssue(message), message });
+  };
 
+  if (Array.isArray(details)) {
+    for (const issue of details) {
+      // zod: a missing property arrives as an invalid_type with received "undefined"
+      const missing = issue?.code === 'invalid_type' && issue?.received === 'undefined';
+      add(issue?.path ?? issue?.field ?? issue?.propertyName ?? issue?.name, issue?.message ?? issue?.detail, missing ? 'missing' : undefined);
+    }
+    return fields;
+  }
+
+  const errors = details?.errors;
+  if (Array.isArray(errors)) {
+    for (const item of errors) {
+      add(item?.field ?? item?.propertyName ?? item?.property ?? item?.path ?? item?.name, item?.message ?? item?.detail ?? item?.errorMessage);
+    }
+  } else if (errors && typeof errors === 'object') {
+    for (const [path, messages] of Object.entries(errors)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) {
+        add(path, message);
+      }
+    }
+  }
+  return fields;
+}
+
+// Larger argument payloads (documents, base64 uploads) are not echoed back
+const MAX_SUGGESTED_ARGUMENTS_LENGTH = 2048;
+
+function suggestTools(category: ErrorCategory, fields: ErrorField[], retryable: boolean): SuggestedToolCall[] {
+  const context = getRequestContext();
+  const args = (context?.arguments ?? {}) as Record<string, unknown>;
+  const suggestions: SuggestedToolCall[] = [];
+
+  switch (category) {
+    case 'validation':
+      // Content property errors come from the CMA; tool argument errors are self-explanatory
+      if (fields.some(field => field.path.startsWith('properties.'))) {
+        suggestions.push({
+          tool: 'type-get-schema',
+          reason: 'See which properties the content type requires and their types',
+          ...(typeof args.contentType === 'string' ? { arguments: { typeId: args.contentType } } : {})
+        });
+      }
+      break;
+    case 'not_found':
+      suggestions.push(
+        { tool: 'graph-search', reason: 'Find the content by name to get its key' },
+        { tool: 'content-site-info', reason: 'Browse the site structure for valid keys and containers' }
+      );
+      break;
+    case 'authentication':
+      suggestions.push({ tool: 'health-check', reason: 'Check credentials and connectivity for this environment' });
+      break;
+    case 'permission':
+      suggestions.push({ tool: 'get-config', reason: 'Check the API client and impersonated user in use' });
+      break;
+    case 'conflict':
+      if (typeof args.contentId === 'string') {
+        suggestions.push({ tool: 'content-get', reason: 'Fetch the current state before retrying', arguments: { contentId: args.contentId } });
+      }
+      break;
+    case 'graphql':
+      suggestions.push({ tool: 'graph-introspection', reason: 'List the types and fields the Graph schema offers' });
+      break;
+    case 'policy':
+      suggestions.push({ tool: 'get-config', reason: 'See safe mode and the tool allow/deny lists' });
+      break;
+  }
+
+  // A write may have gone through before the failure, so only reads are offered for a blind retry
+  if (retryable && context?.toolName && !isMutatingCall(context.toolName, args)) {
+    const echoArguments = (JSON.stringify(args)?.length ?? 0) <= MAX_SUGGESTED_ARGUMENTS_LENGTH;
+    suggestions.push({
+      tool: context.toolName,
+      reason: 'Retry the same call; the failure is likely temporary',
+      ...(echoArguments ? { arguments: args } : {})
+    });
+  }
+  return suggestions;
+}
+
+export function describeError(error: any): ErrorEnvelope {
+  const category = categorize(error);
+  const retryable = isRetryableError(error);
+  const fields = error instanceof OptimizelyError && category === 'validation' ? extractFields(error.details) : [];
+  const graphQLMessages = !(error instanceof OptimizelyError) && Array.isArray(error?.response?.errors)
+    ? error.response.errors.map((e: any) => String(e.message))
+    : [];
+  const hints = error instanceof GraphQLQueryError ? error.hints : graphQLMessages;
+  const suggestedTools = suggestTools(category, fields, retryable);
+  const retryAfter = error instanceof RateLimitError || error instanceof CircuitOpenError
+    ? error.details?.retryAfter
+    : undefined;
+
+  return {
+    code: error instanceof OptimizelyError
+      ? error.code
+      : category === 'network' ? 'NETWORK_ERROR' : category === 'graphql' ? 'GRAPHQL_ERROR' : 'INTERNAL_ERROR',
+    category,
+    message: error?.message || String(error),
+    ...(error instanceof OptimizelyError && error.statusCode !== undefined ? { status: error.statusCode } : {}),
+    retryable,
+    ...(typeof retryAfter === 'number' ? { retryAfterSeconds: retryAfter } : {}),
+    ...(fields.length > 0 ? { fields } : {}),
+    ...(hints.length > 0 ? { hints } : {}),
+    ...(suggestedTools.length > 0 ? { suggestedTools } : {})
+  };
+}
+
+function humanErrorText(error: any): string {
   if (error instanceof OptimizelyError) {
-    return {
-      isError: true,
-      content: [{
-        type: 'text',
-        text: formatErrorMessage(error)
-      }]
-    };
+    return formatErrorMessage(error);
   }
 
   // Handle fetch/network errors
   if (error instanceof TypeError && error.message.includes('fetch')) {
-    return {
-      isError: true,
-      content: [{
-        type: 'text',
-        text: `Network error: ${error.message}`
-      }]
-    };
+    return `Network error: ${error.message}`;
   }
 
   // Handle GraphQL errors
@@ -83,23 +293,29 @@ export function handleError(error: any): CallToolResult {
     const graphQLErrors = error.response.errors
       .map((e: any) => `- ${e.message}`)
       .join('\n');
-    
-    return {
-      isError: true,
-      content: [{
-        type: 'text',
-        text: `GraphQL errors:\n${graphQLErrors}`
-      }]
-    };
+    return `GraphQL errors:\n${graphQLErrors}`;
   }
 
   // Generic error
+  return `Unexpected error: ${error.message || error}`;
+}
+
+/**
+ * Tool result for a failure: the human-readable text, then the same error
+ * as a JSON envelope ({ "error": ErrorEnvelope }), which is also set as
+ * structuredContent for clients that read it.
+ */
+export function handleError(error: any): CallToolResult {
+  getLogger().error('Tool execution error:', error);
+
+  const envelope = { error: describeError(error) };
   return {
     isError: true,
-    content: [{
-      type: 'text',
-      text: `Unexpected error: ${error.message || error}`
-    }]
+    content: [
+      { type: 'text', text: humanErrorText(error) },
+      { type: 'text', text: JSON.stringify(envelope, null, 2) }
+    ],
+    structuredContent: envelope
   };
 }
 
@@ -136,6 +352,8 @@ export async function withRetry<T>(
     initialDelay?: number;
     maxDelay?: number;
     backoffFactor?: number;
+    // Called before each new attempt, e.g. to count retries
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
   } = {}
 ): Promise<T> {
   const {
@@ -154,17 +372,24 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error;
       
-      if (!isRetryableError(error) || attempt === maxRetries) {
+      // An open circuit already knows the endpoint is down; waiting here would defeat it
+      if (!isRetryableError(error) || error instanceof CircuitOpenError || attempt === maxRetries) {
         throw error;
       }
 
       // Handle rate limit with retry-after header
-      if (error instanceof RateLimitError && error.details?.retryAfter) {
-        delay = error.details.retryAfter * 1000;
+      const retryAfter = error instanceof RateLimitError ? error.details?.retryAfter : undefined;
+      if (retryAfter) {
+        delay = retryAfter * 1000;
       }
 
-      console.warn(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      // Jitter keeps callers that failed together from retrying together;
+      // a server-given Retry-After is only ever extended, never shortened
+      const wait = Math.round(retryAfter ? delay + Math.random() * 1000 : delay / 2 + Math.random() * delay / 2);
+
+      getLogger().warn(`Attempt ${attempt + 1} failed, retrying in ${wait}ms...`);
+      options.onRetry?.(error, attempt + 1, wait);
+      await new Promise(resolve => setTimeout(resolve, wait));
       
       // Exponential backoff
       delay = Math.min(delay * backoffFactor, maxDelay);
@@ -1,5 +1,6 @@
 import { GraphQLError } from 'graphql';
 import { getLogger } from './logger.js';
+import { GraphQLQueryError } from './errors.js';
 
 export interface GraphQLErrorInfo {
   message: string;
@@ -259,6 +260,7 @@ export function handleGraphQLError(
   const handler = getGraphQLErrorHandler();
   const errorInfo = handler.parseGraphQLError(error, query, variables);
   const formattedError = handler.formatError(errorInfo);
+  const status = typeof error?.response?.status === 'number' ? error.response.status : undefined;
   
-  throw new Error(formattedError);
+  throw new GraphQLQueryError(formattedError, status, errorInfo.suggestions);
 }
\ No newline at end of file
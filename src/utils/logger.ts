@@ -1,5 +1,20 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { inspect } from 'util';
+import { getRequestContext } from './request-context.js';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+// text: one readable line per entry; json: one JSON object per line for log collectors
+export type LogFormat = 'text' | 'json';
+
+export interface LoggerSettings {
+  level: LogLevel;
+  format: LogFormat;
+  // Every entry is also appended to this file
+  file?: string;
+}
+
 export interface Logger {
   debug(message: string, ...args: any[]): void;
   info(message: string, ...args: any[]): void;
@@ -7,6 +22,11 @@ export interface Logger {
   error(message: string, ...args: any[]): void;
 }
 
+/**
+ * Writes to stderr, never stdout: with the stdio transport stdout is the MCP
+ * channel and a stray log line corrupts it. Entries made during a tool call
+ * carry its correlation ID.
+ */
 class ConsoleLogger implements Logger {
   private static levels: Record<LogLevel, number> = {
     debug: 0,
@@ -15,44 +35,112 @@ class ConsoleLogger implements Logger {
     error: 3
   };
 
-  constructor(private level: LogLevel = 'info') {}
+  private settings: LoggerSettings;
+  private fileStream: fs.WriteStream | null = null;
+
+  constructor(level: LogLevel = 'info') {
+    this.settings = { level, format: 'text' };
+  }
+
+  configure(settings: LoggerSettings): void {
+    if (settings.file !== this.settings.file) {
+      this.fileStream?.end();
+      this.fileStream = settings.file ? this.openFile(settings.file) : null;
+    }
+    this.settings = settings;
+  }
 
   private shouldLog(level: LogLevel): boolean {
-    return ConsoleLogger.levels[level] >= ConsoleLogger.levels[this.level];
+    return ConsoleLogger.levels[level] >= ConsoleLogger.levels[this.settings.level];
   }
 
-  private formatMessage(level: LogLevel, message: string): string {
+  private formatText(level: LogLevel, message: string, args: any[]): string {
     const timestamp = new Date().toISOString();
-    return `[${timestamp}] [${level.toUpperCase()}] ${message}`;
+    const correlationId = getRequestContext()?.operationId;
+    const prefix = `[${timestamp}] [${level.toUpperCase()}]${correlationId ? ` [${correlationId}]` : ''}`;
+    const details = args.map(arg => typeof arg === 'string' ? arg : inspect(arg, { depth: 5 }));
+    return [`${prefix} ${message}`, ...details].join(' ');
   }
 
-  debug(message: string, ...args: any[]): void {
-    if (this.shouldLog('debug')) {
-      console.debug(this.formatMessage('debug', message), ...args);
+  private formatJson(level: LogLevel, message: string, args: any[]): string {
+    const context = getRequestContext();
+    const entry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(context?.operationId ? { correlationId: context.operationId } : {}),
+      ...(context?.toolName ? { tool: context.toolName } : {}),
+      ...(context?.environment ? { environment: context.environment } : {}),
+      ...(args.length > 0 ? { data: args.length === 1 ? args[0] : args } : {})
+    };
+    try {
+      return JSON.stringify(entry, jsonReplacer);
+    } catch {
+      // Circular or otherwise unserializable data
+      return JSON.stringify({ ...entry, data: inspect(entry.data, { depth: 5, breakLength: Infinity }) });
     }
   }
 
-  info(message: string, ...args: any[]): void {
-    if (this.shouldLog('info')) {
-      console.info(this.formatMessage('info', message), ...args);
+  private write(level: LogLevel, message: string, args: any[]): void {
+    if (!this.shouldLog(level)) {
+      return;
     }
+    const line = this.settings.format === 'json'
+      ? this.formatJson(level, message, args)
+      : this.formatText(level, message, args);
+    process.stderr.write(`${line}\n`);
+    this.fileStream?.write(`${line}\n`);
   }
 
-  warn(message: string, ...args: any[]): void {
-    if (this.shouldLog('warn')) {
-      console.warn(this.formatMessage('warn', message), ...args);
+  private openFile(file: string): fs.WriteStream | null {
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const stream = fs.createWriteStream(file, { flags: 'a' });
+      stream.on('error', error => {
+        process.stderr.write(`Log file ${file} is not writable; logging to stderr only: ${error.message}\n`);
+        this.fileStream = null;
+      });
+      return stream;
+    } catch (error) {
+      process.stderr.write(`Could not open log file ${file}: ${error instanceof Error ? error.message : error}\n`);
+      return null;
     }
   }
 
+  debug(message: string, ...args: any[]): void {
+    this.write('debug', message, args);
+  }
+
+  info(message: string, ...args: any[]): void {
+    this.write('info', message, args);
+  }
+
+  warn(message: string, ...args: any[]): void {
+    this.write('warn', message, args);
+  }
+
   error(message: string, ...args: any[]): void {
-    if (this.shouldLog('error')) {
-      console.error(this.formatMessage('error', message), ...args);
-    }
+    this.write('error', message, args);
+  }
+}
+
+// Errors, Maps and bigints have no useful JSON form of their own
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    const { code, statusCode, details } = value as any;
+    return { name: value.name, message: value.message, code, statusCode, details, stack: value.stack };
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
   }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
 }
 
 // Singleton logger instance
-let loggerInstance: Logger | null = null;
+let loggerInstance: ConsoleLogger | null = null;
 
 export function createLogger(level: LogLevel = 'info'): Logger {
   return new ConsoleLogger(level);
@@ -61,11 +149,20 @@ export function createLogger(level: LogLevel = 'info'): Logger {
 export function getLogger(): Logger {
   if (!loggerInstance) {
     const logLevel = (process.env.LOG_LEVEL as LogLevel) || 'info';
-    loggerInstance = createLogger(logLevel);
+    loggerInstance = new ConsoleLogger(logLevel);
   }
   return loggerInstance;
 }
 
+/**
+ * Apply the configured level, format and file. The shared logger is changed
+ * in place, so modules that already hold it pick up the new settings.
+ */
+export function configureLogger(settings: LoggerSettings): void {
+  getLogger();
+  loggerInstance!.configure(settings);
+}
+
 // Utility function to log API requests
 export function logAPIRequest(
   method: string,
@@ -77,8 +174,8 @@ export function logAPIRequest(
 ): void {
   const logger = getLogger();
   logger.debug(`API Request: ${method} ${url}`, {
-    headers: options?.headers ? sanitizeHeaders(options.headers) : undefined,
-    body: options?.body
+    headers: options?.headers ? redact(options.headers) : undefined,
+    body: options?.body ? redact(options.body) : undefined
   });
 }
 
@@ -97,18 +194,51 @@ export function logAPIResponse(
   });
 }
 
-// Sanitize headers to hide sensitive information
-function sanitizeHeaders(headers: Record<string, string>): Record<string, string> {
-  const sanitized = { ...headers };
-  const sensitiveHeaders = ['authorization', 'api-key', 'x-api-key', 'cookie'];
-  
-  for (const header of sensitiveHeaders) {
-    if (sanitized[header]) {
-      sanitized[header] = '***';
-    }
+const REDACTED = '[REDACTED]';
+
+const SENSITIVE_FIELDS = new Set([
+  'authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'api-key', 'x-api-key',
+  'client_secret', 'clientsecret', 'password', 'secret', 'access_token', 'refresh_token'
+]);
+
+// Credentials inside form-encoded or JSON text and auth schemes in free text
+function redactText(text: string): string {
+  return text
+    .replace(/\b(client_secret|password|access_token|refresh_token)=[^&\s]*/gi, `$1=${REDACTED}`)
+    .replace(/("(?:client_secret|clientSecret|password|access_token|refresh_token|authorization)"\s*:\s*)"[^"]*"/gi, `$1"${REDACTED}"`)
+    .replace(/\b(Bearer|Basic|epi-single)\s+[\w.~+/=-]+/g, `$1 ${REDACTED}`);
+}
+
+/**
+ * Replace credentials in headers and request bodies before they are logged:
+ * Authorization and similar headers (in any case, as a plain object or
+ * Headers), client_secret and password fields, and bearer tokens in text.
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
   }
-  
-  return sanitized;
+  if (value instanceof URLSearchParams) {
+    return redactText(value.toString());
+  }
+  if (value instanceof Headers) {
+    return redact(Object.fromEntries(value.entries()), depth);
+  }
+  if (!value || typeof value !== 'object' || depth > 8) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    // FormData, Blobs and the like are logged as they are
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SENSITIVE_FIELDS.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1)
+  ]));
 }
 
 // Truncate large response bodies
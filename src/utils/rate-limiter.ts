@@ -0,0 +1,223 @@
+import { getLogger } from './logger.js';
+import type { Config } from '../types/config.js';
+
+export interface RateLimitSettings {
+  // Sustained requests per second; 0 turns the token bucket off
+  requestsPerSecond: number;
+  // Requests that may go out at once after an idle period
+  burst: number;
+  // Requests in flight at the same time; 0 means unlimited
+  maxConcurrency: number;
+}
+
+export interface RateLimiterStats {
+  name: string;
+  active: number;
+  queued: number;
+  maxConcurrency: number;
+  requestsPerSecond: number;
+  tokens: number;
+  throttled: number;
+  pauses: number;
+  pausedForMs: number;
+}
+
+/**
+ * Client-side governor for one API endpoint: a token bucket paces requests
+ * and a FIFO queue caps how many are in flight. When the server answers 429
+ * the whole endpoint pauses for the Retry-After period, so queued requests
+ * wait instead of adding to the overload.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private pausedUntil = 0;
+  private throttled = 0;
+  private pauses = 0;
+
+  constructor(readonly name: string, private settings: RateLimitSettings) {
+    this.tokens = this.capacity();
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  // Stop sending until the server's rate-limit window has passed
+  pause(seconds: number): void {
+    if (!(seconds > 0)) return;
+    this.pauses++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + seconds * 1000);
+    getLogger().warn(`Pausing ${this.name} requests for ${seconds}s (server rate limit)`);
+  }
+
+  update(settings: RateLimitSettings): void {
+    this.settings = settings;
+    this.tokens = Math.min(this.tokens, this.capacity());
+    this.drain();
+  }
+
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      name: this.name,
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrency: this.settings.maxConcurrency,
+      requestsPerSecond: this.settings.requestsPerSecond,
+      tokens: Math.floor(this.tokens),
+      throttled: this.throttled,
+      pauses: this.pauses,
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now())
+    };
+  }
+
+  private acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+      if (this.queue.includes(resolve)) {
+        this.throttled++;
+      }
+    });
+  }
+
+  private drain(): void {
+    const { maxConcurrency } = this.settings;
+    while (this.queue.length > 0 && (!(maxConcurrency > 0) || this.active < maxConcurrency)) {
+      const wait = this.waitTime();
+      if (wait > 0) {
+        this.schedule(wait);
+        return;
+      }
+      if (this.settings.requestsPerSecond > 0) {
+        this.tokens -= 1;
+      }
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  // Milliseconds until the next request may start
+  private waitTime(): number {
+    const now = Date.now();
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+    const { requestsPerSecond } = this.settings;
+    if (!(requestsPerSecond > 0)) {
+      return 0;
+    }
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 1000) / requestsPerSecond);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    // Clocks can step backwards; never take tokens away for it
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity(), this.tokens + elapsed * (this.settings.requestsPerSecond || 0));
+    this.lastRefill = now;
+  }
+
+  private capacity(): number {
+    return this.settings.burst > 1 ? this.settings.burst : 1;
+  }
+
+  private schedule(wait: number): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, wait);
+  }
+}
+
+/**
+ * Seconds to wait before retrying, from Retry-After (seconds or an HTTP date)
+ * or the RateLimit-Reset / X-RateLimit-Reset headers (seconds, or an epoch
+ * timestamp when the value is that large).
+ */
+export function retryAfterSeconds(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  const reset = Number(headers.get('ratelimit-reset') ?? headers.get('x-ratelimit-reset') ?? NaN);
+  if (Number.isFinite(reset)) {
+    // Epoch seconds rather than a delta
+    return reset > 1_000_000_000 ? Math.max(0, Math.ceil(reset - Date.now() / 1000)) : Math.max(0, reset);
+  }
+  return undefined;
+}
+
+// True when the server says this window has no requests left
+export function isQuotaExhausted(headers: Headers): boolean {
+  const remaining = headers.get('ratelimit-remaining') ?? headers.get('x-ratelimit-remaining');
+  return remaining !== null && Number(remaining) <= 0;
+}
+
+export type RateLimitedApi = 'cma' | 'graph';
+
+let limitSettings: Record<RateLimitedApi, RateLimitSettings> = {
+  cma: { requestsPerSecond: 10, burst: 10, maxConcurrency: 5 },
+  graph: { requestsPerSecond: 20, burst: 20, maxConcurrency: 10 }
+};
+
+export function rateLimitSettingsFromConfig(options: Config['options']): Record<RateLimitedApi, RateLimitSettings> {
+  return {
+    cma: {
+      requestsPerSecond: options.cmaRateLimit,
+      burst: Math.ceil(options.cmaRateLimit),
+      maxConcurrency: options.cmaMaxConcurrency
+    },
+    graph: {
+      requestsPerSecond: options.graphRateLimit,
+      burst: Math.ceil(options.graphRateLimit),
+      maxConcurrency: options.graphMaxConcurrency
+    }
+  };
+}
+
+// One limiter per API and host, shared by every client that talks to it
+const limiters = new Map<string, RateLimiter>();
+
+export function configureRateLimits(settings: Record<RateLimitedApi, RateLimitSettings>): void {
+  limitSettings = settings;
+  for (const [name, limiter] of limiters) {
+    limiter.update(settings[name.split(' ')[0] as RateLimitedApi]);
+  }
+}
+
+export function getRateLimiter(api: RateLimitedApi, endpoint: string): RateLimiter {
+  let host: string;
+  try {
+    host = new URL(endpoint).host;
+  } catch {
+    host = endpoint;
+  }
+  const name = `${api} ${host}`;
+  let limiter = limiters.get(name);
+  if (!limiter) {
+    limiter = new RateLimiter(name, limitSettings[api]);
+    limiters.set(name, limiter);
+  }
+  return limiter;
+}
+
+export function getRateLimiterStats(): RateLimiterStats[] {
+  return Array.from(limiters.values(), limiter => limiter.getStats());
+}
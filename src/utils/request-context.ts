@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Per tool call state that has to reach deep helpers (caches, clients)
+// without threading it through every function signature
+export interface RequestContext {
+  // Environment profile the call runs against
+  environment?: string;
+  // Tool being executed and its arguments, for the audit log
+  toolName?: string;
+  arguments?: Record<string, unknown>;
+  // Unique per tool call; groups every API write the call makes and is the
+  // correlation ID in logs and on the API requests the call triggers
+  operationId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Run fn with the given context merged over the current one
+export function runWithRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+// Sent with every CMA and Graph request so API-side logs can be matched to the tool call
+export function correlationHeaders(): Record<string, string> {
+  const operationId = storage.getStore()?.operationId;
+  return operationId ? { 'X-Correlation-ID': operationId } : {};
+}
@@ -0,0 +1,252 @@
+import {
+  metrics,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Counter,
+  type Histogram,
+  type Span
+} from '@opentelemetry/api';
+import { getLogger } from './logger.js';
+import { OptimizelyError } from './errors.js';
+import type { Config } from '../types/config.js';
+
+/**
+ * OpenTelemetry tracing and metrics
+ *
+ * Tool calls, CMA and Graph requests get spans (API requests nest under the
+ * tool call that made them) and the metrics below. Everything goes through
+ * @opentelemetry/api, which does nothing until startTelemetry() installs the
+ * SDK with OTLP exporters.
+ */
+
+export interface TelemetrySettings {
+  enabled: boolean;
+  // OTLP/HTTP collector; /v1/traces and /v1/metrics are appended
+  endpoint: string;
+  serviceName: string;
+  serviceVersion: string;
+  metricsIntervalMs: number;
+}
+
+export type TracedApi = 'cma' | 'graph';
+
+const SCOPE = 'optimizely-mcp';
+
+interface Instruments {
+  toolCalls: Counter;
+  toolDuration: Histogram;
+  apiRequests: Counter;
+  apiDuration: Histogram;
+  apiRetries: Counter;
+  cacheLookups: Counter;
+  cacheEvictions: Counter;
+}
+
+// Created from the global meter on first use, and again once the SDK is installed
+let instruments: Instruments | null = null;
+let shutdownHook: (() => Promise<void>) | null = null;
+
+function getInstruments(): Instruments {
+  if (!instruments) {
+    const meter = metrics.getMeter(SCOPE);
+    instruments = {
+      toolCalls: meter.createCounter('mcp.tool.calls', {
+        description: 'Tool calls by tool, outcome and error code'
+      }),
+      toolDuration: meter.createHistogram('mcp.tool.duration', { unit: 'ms', description: 'Tool call latency' }),
+      apiRequests: meter.createCounter('optimizely.api.requests', {
+        description: 'CMA and Graph requests by API, outcome and error code'
+      }),
+      apiDuration: meter.createHistogram('optimizely.api.duration', {
+        unit: 'ms',
+        description: 'CMA and Graph request latency, including retries'
+      }),
+      apiRetries: meter.createCounter('optimizely.api.retries', { description: 'Retried CMA and Graph requests' }),
+      cacheLookups: meter.createCounter('optimizely.cache.lookups', {
+        description: 'Cache lookups by namespace and result (hit, stale, miss)'
+      }),
+      cacheEvictions: meter.createCounter('optimizely.cache.evictions', {
+        description: 'Entries evicted to stay within the cache limits'
+      })
+    };
+  }
+  return instruments;
+}
+
+function tracer() {
+  return trace.getTracer(SCOPE);
+}
+
+// OptimizelyError codes (NOT_FOUND, RATE_LIMIT...) or the error class name
+export function errorCode(error: unknown): string {
+  if (error instanceof OptimizelyError) return error.code;
+  return error instanceof Error ? error.name : 'Error';
+}
+
+function failSpan(span: Span, code: string, message: string, error?: unknown): void {
+  if (error instanceof Error) span.recordException(error);
+  span.setAttribute('error.type', code);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Trace one tool call. Tools report most failures as an error result rather
+ * than by throwing, so the result's error code is recorded as well.
+ */
+export async function traceToolCall<T extends { isError?: boolean; structuredContent?: any }>(
+  tool: string,
+  attributes: Attributes,
+  fn: () => Promise<T>
+): Promise<T> {
+  const start = performance.now();
+  return tracer().startActiveSpan(
+    `tools/call ${tool}`,
+    { kind: SpanKind.SERVER, attributes: { 'mcp.tool.name': tool, ...attributes } },
+    async span => {
+      let code: string | undefined;
+      try {
+        const result = await fn();
+        if (result?.isError) {
+          const envelope = result.structuredContent?.error;
+          code = envelope?.code ?? 'TOOL_ERROR';
+          failSpan(span, code!, envelope?.message ?? 'Tool returned an error');
+        }
+        return result;
+      } catch (error) {
+        code = errorCode(error);
+        failSpan(span, code, error instanceof Error ? error.message : String(error), error);
+        throw error;
+      } finally {
+        const outcome = code ? 'error' : 'ok';
+        getInstruments().toolCalls.add(1, { 'mcp.tool.name': tool, outcome, ...(code ? { 'error.type': code } : {}) });
+        getInstruments().toolDuration.record(performance.now() - start, { 'mcp.tool.name': tool, outcome });
+        span.end();
+      }
+    }
+  );
+}
+
+/**
+ * Trace one logical CMA or Graph request, retries included. fn receives the
+ * span to add response details such as the status code.
+ */
+export async function traceApiRequest<T>(
+  api: TracedApi,
+  operation: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const start = performance.now();
+  return tracer().startActiveSpan(
+    `${api === 'cma' ? 'CMA' : 'Graph'} ${operation}`,
+    { kind: SpanKind.CLIENT, attributes: { 'optimizely.api': api, ...attributes } },
+    async span => {
+      let code: string | undefined;
+      try {
+        return await fn(span);
+      } catch (error) {
+        code = errorCode(error);
+        if (error instanceof OptimizelyError && error.statusCode !== undefined) {
+          span.setAttribute('http.response.status_code', error.statusCode);
+        }
+        failSpan(span, code, error instanceof Error ? error.message : String(error), error);
+        throw error;
+      } finally {
+        const outcome = code ? 'error' : 'ok';
+        getInstruments().apiRequests.add(1, { 'optimizely.api': api, outcome, ...(code ? { 'error.type': code } : {}) });
+        getInstruments().apiDuration.record(performance.now() - start, { 'optimizely.api': api, outcome });
+        span.end();
+      }
+    }
+  );
+}
+
+// Called by withRetry before each new attempt
+export function recordRetry(api: TracedApi, error: unknown, attempt: number, delayMs: number): void {
+  const code = errorCode(error);
+  getInstruments().apiRetries.add(1, { 'optimizely.api': api, 'error.type': code });
+  trace.getActiveSpan()?.addEvent('retry', { attempt, 'retry.delay_ms': delayMs, 'error.type': code });
+}
+
+export function recordCacheLookup(namespace: string, result: 'hit' | 'stale' | 'miss', key: string): void {
+  getInstruments().cacheLookups.add(1, { 'cache.namespace': namespace, 'cache.result': result });
+  trace.getActiveSpan()?.addEvent(`cache.${result}`, { 'cache.key': key.slice(0, 200) });
+}
+
+export function recordCacheEviction(namespace: string): void {
+  getInstruments().cacheEvictions.add(1, { 'cache.namespace': namespace });
+}
+
+export function telemetrySettingsFromConfig(config: Config): TelemetrySettings {
+  return {
+    enabled: config.options.telemetry,
+    endpoint: config.options.telemetryEndpoint,
+    serviceName: config.server.name,
+    serviceVersion: config.server.version,
+    metricsIntervalMs: config.options.telemetryMetricsInterval
+  };
+}
+
+/**
+ * Install the OpenTelemetry SDK and export spans and metrics over OTLP/HTTP.
+ * The SDK is only loaded when telemetry is enabled.
+ */
+export async function startTelemetry(settings: TelemetrySettings): Promise<void> {
+  if (!settings.enabled || shutdownHook) {
+    return;
+  }
+
+  const [{ NodeTracerProvider, BatchSpanProcessor }, sdkMetrics, { resourceFromAttributes }, traceExporter, metricExporter] =
+    await Promise.all([
+      import('@opentelemetry/sdk-trace-node'),
+      import('@opentelemetry/sdk-metrics'),
+      import('@opentelemetry/resources'),
+      import('@opentelemetry/exporter-trace-otlp-http'),
+      import('@opentelemetry/exporter-metrics-otlp-http')
+    ]);
+
+  const endpoint = settings.endpoint.replace(/\/+$/, '');
+  const resource = resourceFromAttributes({
+    'service.name': settings.serviceName,
+    'service.version': settings.serviceVersion
+  });
+
+  const tracerProvider = new NodeTracerProvider({
+    resource,
+    spanProcessors: [
+      new BatchSpanProcessor(new traceExporter.OTLPTraceExporter({ url: `${endpoint}/v1/traces` }))
+    ]
+  });
+  // Also installs the async context manager that nests API spans under tool calls
+  tracerProvider.register();
+
+  const meterProvider = new sdkMetrics.MeterProvider({
+    resource,
+    readers: [
+      new sdkMetrics.PeriodicExportingMetricReader({
+        exporter: new metricExporter.OTLPMetricExporter({ url: `${endpoint}/v1/metrics` }),
+        exportIntervalMillis: settings.metricsIntervalMs
+      })
+    ]
+  });
+  metrics.setGlobalMeterProvider(meterProvider);
+  instruments = null;
+
+  shutdownHook = async () => {
+    await Promise.all([tracerProvider.shutdown(), meterProvider.shutdown()]);
+  };
+  getLogger().info(`OpenTelemetry export enabled to ${endpoint}`);
+}
+
+// Flush pending spans and metrics; call before the process exits
+export async function shutdownTelemetry(): Promise<void> {
+  const hook = shutdownHook;
+  shutdownHook = null;
+  try {
+    await hook?.();
+  } catch (error) {
+    getLogger().warn('Could not flush telemetry', error);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Tool access policy
+ *
+ * Decides which tools a deployment exposes. SAFE_MODE hides and refuses every
+ * tool that writes to the CMS; TOOL_ALLOWLIST and TOOL_DENYLIST narrow the tool
+ * set further by name (a trailing * matches a prefix, e.g. "graph-*").
+ */
+
+export interface ToolPolicyOptions {
+  safeMode?: boolean;
+  toolAllowlist?: string[];
+  toolDenylist?: string[];
+}
+
+export interface ToolRestriction {
+  tool: string;
+  rule: 'safe-mode' | 'allowlist' | 'denylist';
+  reason: string;
+}
+
+// Tools that create, change or delete content whatever their arguments
+export const MUTATING_TOOLS = new Set<string>([
+  'content-create',
+  'content-update',
+  'content-patch',
+  'content-delete',
+  'content-move',
+  'content-copy',
+  'content-promote-tree',
+  'content-import',
+  'content-import-document',
+  'content-undo',
+  'content-create-version',
+  'content-promote-version',
+  'content-create-language-branch',
+  'workflow-transition',
+  'asset-upload',
+  'asset-update-metadata',
+  'content-bulk-update',
+  'content-bulk-publish',
+  'content_create_under'
+]);
+
+// Tools that only write for some arguments; they stay listed in safe mode
+const CONDITIONALLY_MUTATING_TOOLS: Record<string, (args: Record<string, any>) => boolean> = {
+  content_creation_wizard: (args) => args.step === 'create-content'
+};
+
+function matchesPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith('*')
+    ? name.startsWith(pattern.slice(0, -1))
+    : name === pattern;
+}
+
+function matchesAny(name: string, patterns: string[] = []): boolean {
+  return patterns.some(pattern => matchesPattern(name, pattern));
+}
+
+export function isMutatingTool(name: string): boolean {
+  return MUTATING_TOOLS.has(name);
+}
+
+export function isMutatingCall(name: string, args: Record<string, any> = {}): boolean {
+  if (MUTATING_TOOLS.has(name)) {
+    return true;
+  }
+  const predicate = CONDITIONALLY_MUTATING_TOOLS[name];
+  return predicate ? predicate(args) : false;
+}
+
+/**
+ * Why a tool is not available at all, or null if it may be listed.
+ */
+export function getToolRestriction(name: string, options: ToolPolicyOptions): ToolRestriction | null {
+  if (matchesAny(name, options.toolDenylist)) {
+    return { tool: name, rule: 'denylist', reason: `Tool "${name}" is disabled by TOOL_DENYLIST` };
+  }
+
+  if (options.toolAllowlist && options.toolAllowlist.length > 0 && !matchesAny(name, options.toolAllowlist)) {
+    return { tool: name, rule: 'allowlist', reason: `Tool "${name}" is not in TOOL_ALLOWLIST` };
+  }
+
+  if (options.safeMode && isMutatingTool(name)) {
+    return {
+      tool: name,
+      rule: 'safe-mode',
+      reason: `Tool "${name}" modifies content and the server is running in safe mode (SAFE_MODE=true)`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Why a specific call is refused, or null if it may run.
+ */
+export function getCallRestriction(
+  name: string,
+  args: Record<string, any>,
+  options: ToolPolicyOptions
+): ToolRestriction | null {
+  const restriction = getToolRestriction(name, options);
+  if (restriction) {
+    return restriction;
+  }
+
+  if (options.safeMode && isMutatingCall(name, args)) {
+    return {
+      tool: name,
+      rule: 'safe-mode',
+      reason: `This call to "${name}" modifies content and the server is running in safe mode (SAFE_MODE=true)`
+    };
+  }
+
+  return null;
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import { ValidationError } from './errors.js';
 
 // Common validation schemas
@@ -84,6 +86,45 @@ export function validateFilePath(path: string): void {
   }
 }
 
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Real path of target, or of its parent directory when target does not exist yet
+async function realTarget(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch {
+    const parent = await fs.realpath(path.dirname(target)).catch(() => path.dirname(target));
+    return path.join(parent, path.basename(target));
+  }
+}
+
+/**
+ * Resolve a client-supplied path inside root. Relative paths are taken from
+ * root; anything that ends up outside it, directly or through a symlink, is
+ * rejected. Tools reachable over HTTP must never read or write elsewhere.
+ */
+export async function resolvePathWithin(root: string, filePath: string, label: string = 'File path'): Promise<string> {
+  validateFilePath(filePath);
+  const base = await fs.realpath(path.resolve(root)).catch(() => path.resolve(root));
+  const resolved = path.resolve(base, filePath);
+  if (!isInside(base, resolved) || !isInside(base, await realTarget(resolved))) {
+    throw new ValidationError(`${label} must be inside ${base}`);
+  }
+  return resolved;
+}
+
+// Convert a locale code to the Optimizely Graph Locales enum (en-GB -> en_GB).
+// The result is inlined into queries, so anything else is rejected.
+export function toGraphLocale(locale: string): string {
+  if (!/^[A-Za-z]{2,3}([-_][A-Za-z0-9]+)*$/.test(locale)) {
+    throw new ValidationError(`Invalid locale: ${locale}`);
+  }
+  return locale.replace(/-/g, '_');
+}
+
 // Sanitize input for API calls
 export function sanitizeInput(input: any): any {
   if (input === null || input === undefined) {
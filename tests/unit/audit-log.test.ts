@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog, JsonlFileAuditSink } from '../../src/services/audit-log.js';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let auditLog: AuditLog;
+
+  const write = (tool: string, contentKey: string, outcome: 'success' | 'failure' = 'success') =>
+    auditLog.record({
+      tool,
+      arguments: { contentId: contentKey, clientSecret: 'hunter2' },
+      method: 'PATCH',
+      path: `/experimental/content/${contentKey}`,
+      contentKeys: [contentKey],
+      outcome,
+      durationMs: 5
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    auditLog = new AuditLog(new JsonlFileAuditSink(join(dir, 'audit.jsonl')));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append entries and return them newest first', async () => {
+    await write('content-update', 'aaaa');
+    await write('content-move', 'bbbb');
+
+    const entries = await auditLog.query();
+
+    expect(entries.map(entry => entry.tool)).toEqual(['content-move', 'content-update']);
+    expect(entries[0].id).toBeDefined();
+    expect(entries[0].timestamp).toBeDefined();
+  });
+
+  it('should filter by content key, tool and outcome', async () => {
+    await write('content-update', 'aaaa');
+    await write('content-update', 'bbbb', 'failure');
+    await write('content-delete', 'aaaa');
+
+    expect(await auditLog.query({ contentKey: 'aaaa' })).toHaveLength(2);
+    expect(await auditLog.query({ tool: 'content-update', outcome: 'failure' })).toHaveLength(1);
+  });
+
+  it('should keep writing after a failed append', async () => {
+    const filePath = join(dir, 'audit.jsonl');
+    const sink = new JsonlFileAuditSink(filePath);
+    const entry = (id: string) => ({
+      id,
+      timestamp: new Date().toISOString(),
+      method: 'PATCH',
+      path: '/experimental/content/aaaa',
+      contentKeys: ['aaaa'],
+      outcome: 'success' as const,
+      durationMs: 5
+    });
+    mkdirSync(filePath);
+
+    await expect(sink.append(entry('a'))).rejects.toThrow(/EISDIR/);
+    rmSync(filePath, { recursive: true });
+
+    await sink.append(entry('b'));
+    expect((await sink.query({})).map(item => item.id)).toEqual(['b']);
+  });
+
+  it('should redact credentials in arguments', async () => {
+    await write('content-update', 'aaaa');
+
+    const [entry] = await auditLog.query();
+
+    expect(entry.arguments).toEqual({ contentId: 'aaaa', clientSecret: '[REDACTED]' });
+  });
+});
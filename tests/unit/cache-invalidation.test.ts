@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { CacheManager } from '../../src/utils/cache.js';
+import {
+  contentTags,
+  parseWebhookEvent,
+  targetTags,
+  verifyWebhookSignature
+} from '../../src/services/cache-invalidation.js';
+
+const graphResult = {
+  _Content: {
+    items: [{
+      __typename: 'ArticlePage',
+      _metadata: {
+        key: 'Abc-123',
+        container: 'parent1',
+        types: ['ArticlePage', '_Page'],
+        url: { hierarchical: 'https://site.com/en/News' }
+      }
+    }]
+  }
+};
+
+describe('cache invalidation', () => {
+  it('tags Graph results with the keys, types, paths and parents they contain', () => {
+    expect(contentTags(graphResult))
+      .toEqual(['key:abc123', 'type:ArticlePage', 'type:_Page', 'path:/en/news/', 'container:parent1']);
+  });
+
+  it('reads Graph and plain webhook payloads', () => {
+    expect(parseWebhookEvent({ type: { subject: 'doc', action: 'updated' }, data: { docId: 'abc123_en_Published' } }))
+      .toEqual({ keys: ['abc123_en_Published'], types: [], paths: [], containers: [], all: false });
+    expect(parseWebhookEvent({ contentType: 'ArticlePage', path: '/en/news/' }))
+      .toEqual({ keys: [], types: ['ArticlePage'], paths: ['/en/news/'], containers: [], all: false });
+    expect(parseWebhookEvent({ type: { subject: 'bulk', action: 'completed' } }).all).toBe(true);
+  });
+
+  it('removes only entries carrying an invalidated tag', () => {
+    const cache = new CacheManager();
+    cache.set('graph:content:a', graphResult, undefined, contentTags(graphResult));
+    cache.set('graph:content:b', { other: true }, undefined, ['key:def456']);
+
+    const removed = cache.invalidateTags(targetTags({ keys: ['ABC-123_en_Published'], types: [], paths: [], containers: [] }));
+
+    expect(removed).toBe(1);
+    expect(cache.get('graph:content:a')).toBeNull();
+    expect(cache.get('graph:content:b')).toEqual({ other: true });
+  });
+
+  it('does not cache values for held tags until the hold ends', () => {
+    const cache = new CacheManager();
+    cache.invalidateTags(['container:parent1'], 30);
+
+    cache.set('graph:children:parent1', [], undefined, ['container:parent1']);
+    cache.set('graph:children:parent2', [], undefined, ['container:parent2']);
+
+    expect(cache.get('graph:children:parent1')).toBeNull();
+    expect(cache.get('graph:children:parent2')).toEqual([]);
+  });
+
+  it('accepts only bodies signed with the shared secret and a current timestamp', () => {
+    const body = Buffer.from('{"keys":["abc"]}');
+    const now = Date.UTC(2025, 0, 1);
+    const timestamp = String(now / 1000);
+    const signature = createHmac('sha256', 'secret').update(`${timestamp}.${body}`).digest('hex');
+
+    expect(verifyWebhookSignature(body, `sha256=${signature}`, timestamp, 'secret', now)).toBe(true);
+    expect(verifyWebhookSignature(body, signature, timestamp, 'other-secret', now)).toBe(false);
+    expect(verifyWebhookSignature(body, undefined, timestamp, 'secret', now)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, undefined, 'secret', now)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, String(now / 1000 + 1), 'secret', now)).toBe(false);
+    // Replayed after the tolerance window
+    expect(verifyWebhookSignature(body, signature, timestamp, 'secret', now + 10 * 60 * 1000)).toBe(false);
+  });
+});
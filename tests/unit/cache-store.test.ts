@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheManager } from '../../src/utils/cache.js';
+import { FileCacheStore, isPersistable } from '../../src/utils/cache-store.js';
+
+async function tempFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-store-'));
+  return path.join(dir, 'default.json');
+}
+
+describe('persistent cache', () => {
+  it('keeps plain JSON entries between cache instances', async () => {
+    const filePath = await tempFile();
+    const first = new CacheManager(300, 1000, { store: new FileCacheStore(filePath) });
+    first.set('schema:Article', { fields: ['Title'] });
+    first.set('field-mapping:Article', new Map([['Title', 'String']]));
+    await first.flush();
+
+    const second = new CacheManager(300, 1000, { store: new FileCacheStore(filePath) });
+    expect(second.get('schema:Article')).toEqual({ fields: ['Title'] });
+    // Maps do not survive JSON, so they are never written
+    expect(second.get('field-mapping:Article')).toBeNull();
+  });
+
+  it('drops expired entries when loading', async () => {
+    const filePath = await tempFile();
+    await fs.writeFile(filePath, JSON.stringify({
+      version: 1,
+      entries: {
+        fresh: { value: 1, expiry: Date.now() + 60000 },
+        stale: { value: 2, expiry: Date.now() - 1 }
+      }
+    }));
+
+    const cache = new CacheManager(300, 1000, { store: new FileCacheStore(filePath) });
+    expect(cache.get('fresh')).toBe(1);
+    expect(cache.get('stale')).toBeNull();
+  });
+
+  it('evicts entries to stay under the byte limit', () => {
+    const cache = new CacheManager(300, 1000, { maxBytes: 250 });
+    cache.set('a', 'x'.repeat(100), 10);
+    cache.set('b', 'x'.repeat(100), 20);
+    cache.set('c', 'x'.repeat(100), 30);
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('c')).not.toBeNull();
+    expect(cache.getStats().bytes).toBeLessThanOrEqual(250);
+  });
+
+  it('only persists plain JSON values', () => {
+    expect(isPersistable({ a: [1, 'two', null, { b: true }] })).toBe(true);
+    expect(isPersistable(new Map())).toBe(false);
+    expect(isPersistable({ when: new Date() })).toBe(false);
+    expect(isPersistable(Number.NaN)).toBe(false);
+  });
+});
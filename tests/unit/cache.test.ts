@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CacheManager, estimateBytes, getCacheManager, withCache } from '../../src/utils/cache.js';
+
+describe('CacheManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new CacheManager(300, 2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ evictions: 1, hits: 2, misses: 1 });
+  });
+
+  it('evicts the least frequently used entry with the lfu policy', () => {
+    const cache = new CacheManager(300, 2, { evictionPolicy: 'lfu' });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.get('a');
+    cache.get('b');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('serves stale entries only to lookups that allow it', () => {
+    vi.useFakeTimers();
+    const cache = new CacheManager(300);
+    cache.set('graph:a', 'value', 10, undefined, 60);
+
+    vi.advanceTimersByTime(30_000);
+    expect(cache.get('graph:a')).toBeNull();
+    expect(cache.lookup('graph:a')).toEqual({ value: 'value', stale: true });
+
+    vi.advanceTimersByTime(60_000);
+    expect(cache.lookup('graph:a')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ staleHits: 1, expirations: 1 });
+  });
+
+  it('shares one load between concurrent callers with the same key', async () => {
+    let calls = 0;
+    const load = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return { calls };
+    };
+
+    const results = await Promise.all([1, 2, 3].map(() => withCache('graph:search:same', load, 60, 'coalesce-test')));
+
+    expect(calls).toBe(1);
+    expect(results.every(result => result === results[0])).toBe(true);
+    expect(getCacheManager('coalesce-test').getStats()).toMatchObject({ coalesced: 2, inFlight: 0 });
+  });
+
+  it('estimates the memory held by Maps and nested values', () => {
+    const map = new Map([['field', 'x'.repeat(1000)]]);
+    expect(estimateBytes(map)).toBeGreaterThan(2000);
+    expect(estimateBytes({ list: [map, map] })).toBeLessThan(estimateBytes(map) * 2);
+  });
+});
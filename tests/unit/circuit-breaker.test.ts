@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker.js';
+import { APIError, CircuitOpenError, NotFoundError, withRetry } from '../../src/utils/errors.js';
+
+const outage = () => Promise.reject(new APIError('Service Unavailable', 503));
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after repeated outages and then fails fast', async () => {
+    const breaker = new CircuitBreaker('graph test', { failureThreshold: 2, resetSeconds: 30 });
+    await expect(breaker.execute(outage)).rejects.toBeInstanceOf(APIError);
+    await expect(breaker.execute(outage)).rejects.toBeInstanceOf(APIError);
+
+    const call = vi.fn(async () => 'ok');
+    await expect(breaker.execute(call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+    expect(breaker.getStats()).toMatchObject({ state: 'open', opened: 1, rejected: 1, retryInSeconds: 30 });
+  });
+
+  it('does not count client errors against the endpoint', async () => {
+    const breaker = new CircuitBreaker('cma test', { failureThreshold: 1, resetSeconds: 30 });
+    await expect(breaker.execute(() => Promise.reject(new NotFoundError('missing')))).rejects.toBeInstanceOf(NotFoundError);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets one probe through when half-open and closes on success', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker('graph test', { failureThreshold: 1, resetSeconds: 10 });
+    await expect(breaker.execute(outage)).rejects.toBeInstanceOf(APIError);
+
+    vi.advanceTimersByTime(10_000);
+    expect(breaker.getState()).toBe('half-open');
+
+    let release!: () => void;
+    const probe = breaker.execute(() => new Promise<string>(resolve => { release = () => resolve('up'); }));
+    await expect(breaker.execute(async () => 'second')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release();
+    await expect(probe).resolves.toBe('up');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when the probe fails', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker('graph test', { failureThreshold: 3, resetSeconds: 10 });
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(outage)).rejects.toBeInstanceOf(APIError);
+    }
+
+    vi.advanceTimersByTime(10_000);
+    await expect(breaker.execute(outage)).rejects.toBeInstanceOf(APIError);
+    expect(breaker.getStats()).toMatchObject({ state: 'open', opened: 2 });
+  });
+
+  it('is not retried by withRetry', async () => {
+    const breaker = new CircuitBreaker('graph test', { failureThreshold: 1, resetSeconds: 30 });
+    await expect(breaker.execute(outage)).rejects.toBeInstanceOf(APIError);
+
+    const started = Date.now();
+    await expect(withRetry(() => breaker.execute(async () => 'ok'), { maxRetries: 3 }))
+      .rejects.toBeInstanceOf(CircuitOpenError);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+});
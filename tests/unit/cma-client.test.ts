@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { OptimizelyContentClient } from '../../src/clients/cma-client.js';
 import { CMAConfig } from '../../src/types/config.js';
+import { configureAuditLog, type AuditEntry } from '../../src/services/audit-log.js';
+import { runWithRequestContext } from '../../src/utils/request-context.js';
 
 // Mock fetch
 global.fetch = vi.fn();
@@ -169,6 +171,33 @@ describe('OptimizelyContentClient', () => {
       );
     });
 
+    it('should audit writes under the environment the client writes to', async () => {
+      const entries: AuditEntry[] = [];
+      configureAuditLog({ enabled: true, filePath: '', sink: { append: async entry => { entries.push(entry); } } });
+      const target = new OptimizelyContentClient({ ...mockConfig, environment: 'staging' });
+      const json = (body: unknown) => new Response(JSON.stringify(body), {
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      (global.fetch as any).mockReset().mockImplementation(async (url: string, init: RequestInit) =>
+        url.endsWith('/oauth/token')
+          ? json({ access_token: 'test-token', token_type: 'Bearer', expires_in: 3600 })
+          : json({ key: 'abc', displayName: init.method === 'PATCH' ? 'New' : 'Old' }));
+
+      try {
+        // content-promote-tree writes to the target environment during a source environment call
+        await runWithRequestContext(
+          { environment: 'production', toolName: 'content-promote-tree', arguments: {}, operationId: 'op' },
+          () => target.patch('/experimental/content/abc', { displayName: 'New' }, true)
+        );
+      } finally {
+        configureAuditLog({ enabled: false, filePath: '' });
+        (global.fetch as any).mockReset();
+      }
+
+      expect(entries[0]).toMatchObject({ tool: 'content-promote-tree', environment: 'staging', outcome: 'success' });
+    });
+
     it('should handle 404 errors', async () => {
       const mockResponse = new Response('Not Found', {
         status: 404,
@@ -181,6 +210,44 @@ describe('OptimizelyContentClient', () => {
     });
   });
 
+  describe('request preview', () => {
+    it('should describe a request without sending it', () => {
+      const preview = client.describeRequest('/experimental/content/abc', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/merge-patch+json' },
+        body: JSON.stringify({ displayName: 'New name' })
+      });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(preview).toEqual({
+        method: 'PATCH',
+        url: 'https://test.optimizely.com/api/experimental/content/abc',
+        headers: {
+          'Authorization': 'Bearer [REDACTED]',
+          'Content-Type': 'application/merge-patch+json',
+          'Accept': 'application/json'
+        },
+        body: { displayName: 'New name' }
+      });
+    });
+
+    it('should summarize multipart uploads without file contents', () => {
+      const form = new FormData();
+      form.append('content', JSON.stringify({ contentType: 'ImageFile' }));
+      form.append('file', new Blob([new Uint8Array(4)], { type: 'image/png' }), 'logo.png');
+
+      const preview = client.describeRequest('/experimental/content', { method: 'POST', body: form });
+
+      expect(preview.headers['Content-Type']).toBeUndefined();
+      expect(preview.body).toEqual({
+        multipart: {
+          content: { contentType: 'ImageFile' },
+          file: { fileName: 'logo.png', type: 'image/png', size: 4 }
+        }
+      });
+    });
+  });
+
   describe('connection test', () => {
     it('should return true for successful connection', async () => {
       // Mock auth and content types request
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  fingerprintContentType,
+  readArchive,
+  writeArchive,
+  type ContentArchive
+} from '../../src/logic/content/archive.js';
+
+const archive: ContentArchive = {
+  manifest: {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: '2025-01-01T00:00:00.000Z',
+    source: { rootKey: 'root', discovery: 'cma' },
+    locales: ['en'],
+    itemCount: 1,
+    truncated: false,
+    contentTypes: {},
+    assets: [],
+    externalReferences: []
+  },
+  items: [{
+    key: 'root',
+    contentType: 'StandardPage',
+    depth: 0,
+    references: [],
+    locales: { en: { properties: { Title: 'Hello' } } }
+  }]
+};
+
+describe('content archive', () => {
+  it('should round-trip JSON and NDJSON archives', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+    try {
+      for (const file of ['export.json', 'export.ndjson']) {
+        const filePath = path.join(dir, file);
+        await writeArchive(filePath, archive);
+        expect(await readArchive(filePath)).toEqual(archive);
+      }
+      expect((await fs.readFile(path.join(dir, 'export.ndjson'), 'utf-8')).split('\n')).toHaveLength(3);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fingerprint content types by their property definitions only', () => {
+    const definition = {
+      key: 'ArticlePage',
+      displayName: 'Article',
+      baseType: '_page',
+      properties: { Title: { type: 'string', displayName: 'Title' }, Body: { type: 'string', format: 'html' } }
+    };
+    const reordered = {
+      baseType: '_page',
+      displayName: 'Renamed',
+      properties: { Body: { format: 'html', type: 'string' }, Title: { type: 'string', displayName: 'Heading' } }
+    };
+
+    expect(fingerprintContentType(reordered)).toBe(fingerprintContentType(definition));
+    expect(fingerprintContentType({ ...definition, properties: { Title: { type: 'integer' } } }))
+      .not.toBe(fingerprintContentType(definition));
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { executeContentBulkPublish, executeContentBulkUpdate } from '../../src/logic/composite/bulk.js';
+import { ConfigSchema, type Config } from '../../src/types/config.js';
+
+const config = ConfigSchema.parse({
+  server: {},
+  graph: { endpoint: 'https://test.optimizely.com/graphql', authMethod: 'single_key', credentials: { singleKey: 'key' } },
+  cma: { baseUrl: 'https://test.optimizely.com/api', clientId: 'client', clientSecret: 'secret' },
+  options: {}
+});
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'content-type': 'application/json' }
+});
+
+const report = (result: any) => JSON.parse(result.content[0].text);
+
+describe('content bulk operations', () => {
+  let requests: { method: string; path: string; body?: any }[];
+  let status: 'draft' | 'published';
+
+  beforeEach(() => {
+    requests = [];
+    status = 'draft';
+    global.fetch = vi.fn(async (input: any, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/oauth/token') {
+        return json({ access_token: 'token', token_type: 'Bearer', expires_in: 3600 });
+      }
+      const method = init?.method ?? 'GET';
+      const path = url.pathname.replace(/^\/api/, '');
+      requests.push({ method, path, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+      if (method === 'GET' && path.endsWith('/versions')) {
+        return json({ items: [{ version: '2', status }] });
+      }
+      if (method === 'GET') {
+        return json({ displayName: 'Old', status, properties: { Title: 'Old', Teaser: { Heading: 'Hi', Image: 'x' } } });
+      }
+      return json({ version: method === 'POST' ? '3' : '2', status: 'draft' });
+    }) as any;
+  });
+
+  it('continues a run with the continuation token', async () => {
+    const first = report(await executeContentBulkUpdate(config, {
+      keys: ['a', 'b', 'c'], locale: 'en', batchSize: 2, properties: { Title: 'New' }
+    }));
+    expect(first.overall).toMatchObject({ processed: 2, remaining: 1 });
+
+    const second = report(await executeContentBulkUpdate(config, { continuationToken: first.continuationToken }));
+
+    expect(second.results.map((result: any) => result.key)).toEqual(['c']);
+    expect(second.overall).toMatchObject({ matched: 3, processed: 3, remaining: 0 });
+    expect(second.continuationToken).toBeUndefined();
+    expect(requests.filter(request => request.method === 'PATCH').map(request => request.body))
+      .toEqual([{ properties: { Title: 'New' } }, { properties: { Title: 'New' } }, { properties: { Title: 'New' } }]);
+  });
+
+  it('rejects tokens that were edited, belong to another tool or another environment', async () => {
+    const { continuationToken } = report(await executeContentBulkUpdate(config, {
+      keys: ['a', 'b'], locale: 'en', batchSize: 1, properties: { Title: 'New' }
+    }));
+    const [payload, signature] = continuationToken.split('.');
+    const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    const tampered = Buffer.from(JSON.stringify({ ...state, remaining: [['other', 'en']] })).toString('base64url');
+
+    const attempts = [
+      await executeContentBulkUpdate(config, { continuationToken: `${tampered}.${signature}` }),
+      await executeContentBulkUpdate(config, { continuationToken: payload }),
+      await executeContentBulkPublish(config, { continuationToken }),
+      await executeContentBulkUpdate({ ...config, environment: 'staging' }, { continuationToken })
+    ];
+
+    expect(attempts.map(result => result.isError)).toEqual([true, true, true, true]);
+    expect((attempts[3].content[0] as any).text).toContain('issued for environment default, not staging');
+  });
+
+  it('refuses a token after it expires', async () => {
+    const { continuationToken } = report(await executeContentBulkUpdate(config, {
+      keys: ['a', 'b'], locale: 'en', batchSize: 1, properties: { Title: 'New' }
+    }));
+
+    vi.useFakeTimers({ now: Date.now() + 61 * 60 * 1000 });
+    try {
+      const result = await executeContentBulkUpdate(config, { continuationToken });
+      expect((result.content[0] as any).text).toContain('expired');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('creates a draft instead of editing a published version', async () => {
+    status = 'published';
+
+    const result = report(await executeContentBulkUpdate(config, {
+      keys: ['a'], locale: 'en', properties: { Teaser: { Image: null } }
+    }));
+
+    expect(result.results[0]).toMatchObject({ status: 'updated', version: '3' });
+    expect(requests.some(request => request.method === 'PATCH')).toBe(false);
+    expect(requests.at(-1)).toEqual({
+      method: 'POST',
+      path: '/experimental/content/a/versions',
+      body: { displayName: 'Old', properties: { Title: 'Old', Teaser: { Heading: 'Hi' } }, status: 'draft' }
+    });
+  });
+});
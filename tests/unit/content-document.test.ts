@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToHtml, parseDocument, sanitizeHtml } from '../../src/logic/content/document.js';
+
+describe('content documents', () => {
+  it('converts Markdown blocks and inline syntax', () => {
+    const html = markdownToHtml([
+      '## Section',
+      '',
+      'Some **bold** and *italic* text with `code` and a [link](https://example.com).',
+      '',
+      '- one',
+      '- two',
+      '',
+      '```ts',
+      'const a = 1 < 2;',
+      '```'
+    ].join('\n'));
+
+    expect(html).toContain('<h2>Section</h2>');
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html).toContain('<em>italic</em>');
+    expect(html).toContain('<code>code</code>');
+    expect(html).toContain('<a href="https://example.com">link</a>');
+    expect(html).toContain('<ul><li>one</li><li>two</li></ul>');
+    expect(html).toContain('<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>');
+  });
+
+  it('splits title, intro, headings and body', () => {
+    const document = parseDocument([
+      '---',
+      'title: "From front matter"',
+      'author: Jane',
+      '---',
+      '# Heading one',
+      '',
+      'The intro paragraph.',
+      '',
+      '## First',
+      '',
+      'Body text.'
+    ].join('\n'), 'markdown');
+
+    expect(document.title).toBe('From front matter');
+    expect(document.frontMatter).toEqual({ author: 'Jane' });
+    expect(document.intro).toBe('The intro paragraph.');
+    expect(document.headings).toEqual([{ level: 2, text: 'First' }]);
+    expect(document.bodyHtml).toBe('<h2>First</h2>\n<p>Body text.</p>');
+  });
+
+  it('takes the HTML title from the first h1 and the body element', () => {
+    const document = parseDocument(
+      '<html><head><title>Page</title></head><body><h1>Title</h1><p>Intro</p><h3>Part</h3><p>Rest</p></body></html>',
+      'html'
+    );
+
+    expect(document.title).toBe('Title');
+    expect(document.intro).toBe('Intro');
+    expect(document.headings).toEqual([{ level: 3, text: 'Part' }]);
+    expect(document.bodyHtml).toBe('<h3>Part</h3><p>Rest</p>');
+  });
+
+  it('removes scripts, event handlers and unsafe URLs', () => {
+    const html = sanitizeHtml(
+      '<p onclick="x()" style="color:red">Hi<script>alert(1)</script></p>' +
+      '<a href="javascript:alert(1)">bad</a><a href="/ok" target="_blank">ok</a><iframe src="x"></iframe><custom>kept</custom>'
+    );
+
+    expect(html).toBe('<p>Hi</p><a>bad</a><a href="/ok" target="_blank">ok</a>kept');
+  });
+
+  it('does not let unterminated tags through the sanitizer', () => {
+    expect(sanitizeHtml('<p>hi</p><img src=x onerror=alert(1)')).toBe('<p>hi</p>');
+    expect(sanitizeHtml('<a href=" java\tscript:alert(1)">x</a><p>1 < 2</p>')).toBe('<a>x</a><p>1 &lt; 2</p>');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, writeArchive, type ArchiveItem } from '../../src/logic/content/archive.js';
+import { executeContentExport } from '../../src/logic/content/export.js';
+import { executeContentImport } from '../../src/logic/content/import.js';
+import { executeContentImportDocument } from '../../src/logic/content/document-import.js';
+import { ConfigSchema, type Config } from '../../src/types/config.js';
+
+const errorMessage = (result: any) => result.structuredContent?.error?.message ?? result.content[0].text;
+
+const item = (key: string, depth: number, parentKey?: string): ArchiveItem => ({
+  key,
+  contentType: 'StandardPage',
+  container: parentKey ?? 'target',
+  parentKey,
+  depth,
+  references: [],
+  locales: {
+    en: { displayName: `${key} (en)`, properties: {} },
+    sv: { displayName: `${key} (sv)`, properties: {} }
+  }
+} as ArchiveItem);
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'content-type': 'application/json' }
+});
+
+describe('content-import', () => {
+  let dir: string;
+  let config: Config;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'import-'));
+    config = ConfigSchema.parse({
+      server: {},
+      graph: { endpoint: 'https://test.optimizely.com/graphql', authMethod: 'single_key', credentials: { singleKey: 'key' } },
+      cma: { baseUrl: 'https://test.optimizely.com/api', clientId: 'client', clientSecret: 'secret' },
+      options: { exportDir: dir }
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // A CMA that knows the content in `existing` and records every write as "<key>:<locale>"
+  const fakeCma = (existing: string[], failOn?: string) => {
+    const keys = new Set(['target', ...existing]);
+    const writes: string[] = [];
+    global.fetch = vi.fn(async (input: any, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/oauth/token') {
+        return json({ access_token: 'token', token_type: 'Bearer', expires_in: 3600 });
+      }
+      const path = url.pathname.replace(/^\/api/, '');
+      if ((init?.method ?? 'GET') === 'GET') {
+        const key = path.split('/')[path.startsWith('/contentTypes/') ? 2 : 3];
+        return path.startsWith('/contentTypes/') || keys.has(key) ? json({ key }) : json({ message: 'Not found' }, 404);
+      }
+
+      const body = JSON.parse(String(init!.body));
+      const key = path === '/experimental/content' ? body.key : path.split('/')[3];
+      const write = `${key}:${body.locale ?? url.searchParams.get('locale')}`;
+      if (write === failOn) {
+        return json({ message: 'Invalid property value' }, 400);
+      }
+      writes.push(path === '/experimental/content' ? `${write} in ${body.container}` : write);
+      keys.add(key);
+      return json({ key, status: 'draft' }, 201);
+    }) as any;
+    return writes;
+  };
+
+  const importArchive = async (params: Record<string, unknown> = {}) => {
+    const result = await executeContentImport(config, { archivePath: 'archive.json', ...params });
+    return JSON.parse((result.content[0] as any).text);
+  };
+
+  beforeEach(async () => {
+    await writeArchive(join(dir, 'archive.json'), {
+      manifest: {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: '2025-01-01T00:00:00.000Z',
+        source: { rootKey: 'root', discovery: 'cma' },
+        locales: ['en', 'sv'],
+        itemCount: 2,
+        truncated: false,
+        contentTypes: {},
+        assets: [],
+        externalReferences: []
+      },
+      items: [item('root', 0), item('child', 1, 'root')]
+    });
+  });
+
+  it('resumes a partly imported item with only its missing language branches', async () => {
+    const firstRun = fakeCma([], 'root:sv');
+    const failed = await importArchive();
+    expect(failed).toMatchObject({ success: false, checkpoint: { kept: true } });
+    expect(firstRun).toEqual(['root:en in target']);
+
+    const secondRun = fakeCma(['root']);
+    const resumed = await importArchive();
+
+    expect(resumed).toMatchObject({ success: true, checkpoint: { resumed: true, kept: false } });
+    expect(secondRun).toEqual(['root:sv', 'child:en in root', 'child:sv']);
+  });
+
+  it('applies the conflict strategy to items that already exist', async () => {
+    fakeCma(['root']);
+    const skipped = await importArchive({ conflictStrategy: 'skip', dryRun: true });
+    expect(skipped.results.map((result: any) => [result.sourceKey, result.action, result.status]))
+      .toEqual([['root', 'skip', 'skipped'], ['child', 'create', 'planned']]);
+
+    const overwritten = fakeCma(['root']);
+    await importArchive({ conflictStrategy: 'overwrite' });
+    expect(overwritten).toEqual(['root:en', 'root:sv', 'child:en in root', 'child:sv']);
+
+    const copied = fakeCma(['root']);
+    const report = await importArchive({ conflictStrategy: 'create-new' });
+    const newKey = report.rekeyed.root;
+    expect(newKey).toMatch(/^[0-9a-f]{32}$/);
+    expect(copied).toEqual([`${newKey}:en in target`, `${newKey}:sv`, `child:en in ${newKey}`, 'child:sv']);
+  });
+
+  it('refuses archive, checkpoint and document paths outside EXPORT_DIR', async () => {
+    const results = [
+      await executeContentExport(config, { rootKey: 'root', outputPath: '/tmp/elsewhere.json' }),
+      await executeContentImport(config, { archivePath: '../archive.json' }),
+      await executeContentImport(config, { archivePath: 'archive.json', checkpointPath: '/etc/cron.d/job' }),
+      await executeContentImportDocument(config, { parentName: 'News', contentType: 'ArticlePage', filePath: '/etc/passwd' })
+    ];
+
+    for (const result of results) {
+      expect(result.isError).toBe(true);
+      expect(errorMessage(result)).toMatch(/must be inside|security risk/);
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectContentReferences,
+  normalizeContentKey,
+  remapContentReferences
+} from '../../src/logic/content/references.js';
+
+describe('content references', () => {
+  const pageKey = '9e6a1a2b3c4d4e5f8a9b0c1d2e3f4a5b';
+  const blockKey = '11111111-2222-3333-4444-555555555555';
+
+  const properties = {
+    title: 'Welcome',
+    heroLink: `cms://content/${pageKey}?locale=en`,
+    mainArea: [
+      { reference: `cms://content/${blockKey}`, displayOption: 'full' }
+    ],
+    related: { guidValue: pageKey.toUpperCase() },
+    body: `<p>See <a href="cms://content/${pageKey}">this page</a></p>`
+  };
+
+  it('should collect keys from urls, content areas and bare keys', () => {
+    const keys = collectContentReferences(properties);
+
+    expect(Array.from(keys).sort()).toEqual([
+      normalizeContentKey(blockKey),
+      pageKey
+    ].sort());
+  });
+
+  it('should remap mapped keys and leave others untouched', () => {
+    const keyMap = new Map([[pageKey, 'abcdefabcdefabcdefabcdefabcdefab']]);
+    const remapped = remapContentReferences(properties, keyMap);
+
+    expect(remapped.heroLink).toBe('cms://content/abcdefabcdefabcdefabcdefabcdefab?locale=en');
+    expect(remapped.related.guidValue).toBe('abcdefabcdefabcdefabcdefabcdefab');
+    expect(remapped.body).toContain('cms://content/abcdefabcdefabcdefabcdefabcdefab');
+    expect(remapped.mainArea[0].reference).toBe(`cms://content/${blockKey}`);
+    expect(remapped.title).toBe('Welcome');
+    expect(properties.heroLink).toContain(pageKey);
+  });
+});
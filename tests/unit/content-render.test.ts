@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatContentResult, renderContent } from '../../src/logic/content/render.js';
+import { executeContentGet } from '../../src/logic/content/crud.js';
+
+const item = {
+  __typename: 'ArticlePage',
+  _metadata: { key: 'k1', displayName: 'My Article', types: ['ArticlePage'], locale: 'en' },
+  MainBody: { html: '<h2>Section</h2><p>Some <strong>bold</strong> text.</p>' },
+  MainContentArea: [
+    { __typename: 'TeaserBlock', _metadata: { key: 'b1', displayName: 'Teaser' }, Title: 'Teaser title' },
+    { _metadata: { key: 'b2', displayName: 'Linked page', url: { default: '/linked' } } }
+  ]
+};
+
+describe('content rendering', () => {
+  it('renders rich text as Markdown and content areas as nested sections', () => {
+    const markdown = renderContent(item, { format: 'markdown' });
+
+    expect(markdown).toContain('# My Article');
+    expect(markdown).toContain('**Key:** k1');
+    expect(markdown).toContain('## MainBody\n\n### Section\n\nSome **bold** text.');
+    expect(markdown).toContain('## MainContentArea\n\n### Teaser');
+    expect(markdown).toContain('**Title:** Teaser title');
+    expect(markdown).toContain('- [Linked page](/linked)');
+  });
+
+  it('truncates long fields with a pointer to the full value', () => {
+    const text = renderContent(
+      { _metadata: { displayName: 'Long' }, Body: 'x'.repeat(500) },
+      { format: 'text', maxFieldLength: 100, fullValueHint: 'content-get {"contentId": "k"}' }
+    );
+
+    expect(text).toContain('LONG');
+    expect(text).toContain('[… truncated: showing 100 of 500 characters; fetch the full value with content-get {"contentId": "k"} (field Body)]');
+    expect(text).not.toContain('x'.repeat(101));
+  });
+
+  it('points content-get truncation hints at the version and language that were rendered', async () => {
+    global.fetch = vi.fn(async (url: any) => new Response(JSON.stringify(
+      String(url).endsWith('/oauth/token')
+        ? { access_token: 'token', token_type: 'Bearer', expires_in: 3600 }
+        : { key: 'k', displayName: 'Long', properties: { Body: 'x'.repeat(500) } }
+    ), { status: 200, headers: { 'content-type': 'application/json' } }));
+
+    const result = await executeContentGet(
+      { baseUrl: 'https://test.optimizely.com/api', clientId: 'client', clientSecret: 'secret', grantType: 'client_credentials', timeout: 30000, maxRetries: 0 },
+      { contentId: 'k', version: '3', language: 'sv', format: 'text', maxFieldLength: 100 }
+    );
+
+    expect((result.content[0] as any).text)
+      .toContain('fetch the full value with content-get {"contentId":"k","version":"3","language":"sv"}');
+  });
+
+  it('keeps JSON as the default output', () => {
+    const result = formatContentResult(item, { format: 'json' });
+    expect(JSON.parse((result.content[0] as any).text)).toEqual(item);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import type { OptimizelyContentClient } from '../../src/clients/cma-client.js';
+import { walkContentTree } from '../../src/logic/content/tree.js';
+
+// root -> a -> b -> c
+const children: Record<string, string[]> = { root: ['a'], a: ['b'], b: ['c'], c: [] };
+
+const client = {
+  async get(path: string) {
+    const [, key, items] = path.match(/^\/experimental\/content\/([^/]+)(\/items)?$/)!;
+    return items ? { items: children[key].map(child => ({ key: child })) } : { key };
+  }
+} as unknown as OptimizelyContentClient;
+
+describe('walkContentTree', () => {
+  it('reports a tree deeper than maxDepth as truncated', async () => {
+    const limited = await walkContentTree(client, 'root', { maxDepth: 2 });
+    expect(limited.nodes.map(node => [node.key, node.depth])).toEqual([['root', 0], ['a', 1], ['b', 2]]);
+    expect(limited.truncated).toBe(true);
+
+    const complete = await walkContentTree(client, 'root', { maxDepth: 3 });
+    expect(complete.nodes).toHaveLength(4);
+    expect(complete.truncated).toBe(false);
+  });
+
+  it('reports truncation at maxItems', async () => {
+    const result = await walkContentTree(client, 'root', { maxItems: 2 });
+    expect(result.nodes.map(node => node.key)).toEqual(['root', 'a']);
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { executeContentUndo } from '../../src/logic/content/undo.js';
+import { configureAuditLog, JsonlFileAuditSink, type AuditLog } from '../../src/services/audit-log.js';
+import { ConfigSchema } from '../../src/types/config.js';
+
+const config = ConfigSchema.parse({
+  server: {},
+  graph: { endpoint: 'https://test.optimizely.com/graphql', authMethod: 'single_key', credentials: { singleKey: 'key' } },
+  cma: { baseUrl: 'https://test.optimizely.com/api', clientId: 'client', clientSecret: 'secret' },
+  options: {}
+});
+
+const json = (body: unknown) => new Response(JSON.stringify(body), {
+  status: 200,
+  headers: { 'content-type': 'application/json' }
+});
+
+describe('content-undo', () => {
+  let dir: string;
+  let auditLog: AuditLog;
+
+  const recordUpdate = (before: unknown) => auditLog.record({
+    tool: 'content-update',
+    method: 'PATCH',
+    path: '/experimental/content/abc',
+    contentKeys: ['abc'],
+    requestBody: { displayName: 'New', properties: { body: 'New body' } },
+    before,
+    outcome: 'success',
+    durationMs: 5
+  });
+
+  const undo = async (auditId: string) => {
+    const result = await executeContentUndo(config, { auditId, dryRun: true });
+    return JSON.parse((result.content[0] as any).text);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'undo-'));
+    auditLog = configureAuditLog({ enabled: true, filePath: '', sink: new JsonlFileAuditSink(join(dir, 'audit.jsonl')) });
+    global.fetch = vi.fn(async (url: any) => String(url).endsWith('/oauth/token')
+      ? json({ access_token: 'token', token_type: 'Bearer', expires_in: 3600 })
+      : json({ key: 'abc', displayName: 'New', properties: { body: 'New body' } }));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('restores the changed fields from the before-snapshot', async () => {
+    const entry = await recordUpdate({ key: 'abc', displayName: 'Old', properties: { body: 'Old body' } });
+
+    const report = await undo(entry!.id);
+
+    expect(report.steps[0].action).toBe('restore-fields');
+    expect(report.steps[0].request.body).toEqual({ displayName: 'Old', properties: { body: 'Old body' } });
+  });
+
+  it('refuses to restore from a truncated snapshot', async () => {
+    const entry = await recordUpdate({ key: 'abc', displayName: 'Old', properties: { body: 'x'.repeat(70 * 1024) } });
+    expect(entry!.before).toMatchObject({ truncated: true });
+
+    const report = await undo(entry!.id);
+
+    expect(report.steps[0]).toMatchObject({ unsupported: expect.stringContaining('too large') });
+    expect(report.steps[0].request).toBeUndefined();
+  });
+
+  it('reports which steps were reverted when one of them fails', async () => {
+    // One tool call that changed three items; they are reverted newest first (c, b, a)
+    const entries = [];
+    for (const key of ['a', 'b', 'c']) {
+      entries.push(await auditLog.record({
+        operationId: 'op-1',
+        tool: 'content-update',
+        method: 'PATCH',
+        path: `/experimental/content/${key}`,
+        contentKeys: [key],
+        requestBody: { displayName: 'New' },
+        before: { key, displayName: 'Old' },
+        outcome: 'success',
+        durationMs: 5
+      }));
+    }
+    const [a, b, c] = entries.map(entry => entry!.id);
+    global.fetch = vi.fn(async (url: any, init?: RequestInit) => {
+      if (String(url).endsWith('/oauth/token')) {
+        return json({ access_token: 'token', token_type: 'Bearer', expires_in: 3600 });
+      }
+      if (init?.method === 'PATCH' && String(url).endsWith('/experimental/content/b')) {
+        return new Response(JSON.stringify({ title: 'Bad Request' }), {
+          status: 400,
+          headers: { 'content-type': 'application/json' }
+        });
+      }
+      return json({ displayName: 'New' });
+    });
+
+    const result = await executeContentUndo(config, { operationId: 'op-1' });
+    const report = JSON.parse((result.content[0] as any).text);
+
+    expect(report.success).toBe(false);
+    expect(report.applied).toEqual([c]);
+    expect(report.failed).toEqual([{ auditId: b, error: expect.any(String) }]);
+    expect(report.notAttempted).toEqual([a]);
+    const patched = (global.fetch as any).mock.calls
+      .filter(([, init]: [unknown, RequestInit | undefined]) => init?.method === 'PATCH')
+      .map(([url]: [unknown]) => String(url).split('/').pop());
+    expect(patched).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { APIError, describeError, handleError, NotFoundError, ValidationError } from '../../src/utils/errors.js';
+import { validateInput } from '../../src/utils/validation.js';
+import { runWithRequestContext } from '../../src/utils/request-context.js';
+
+describe('error envelope', () => {
+  it('lists the offending properties from a CMA validation response', () => {
+    const envelope = runWithRequestContext(
+      { environment: 'dev', toolName: 'content-create', arguments: { contentType: 'ArticlePage' }, operationId: 'op' },
+      () => describeError(new ValidationError('Validation failed', {
+        status: 400,
+        errors: { 'Properties.Title': ['The Title field is required.'], 'Properties.Count': ['Must be a number'] }
+      }))
+    );
+
+    expect(envelope).toMatchObject({ code: 'VALIDATION_ERROR', category: 'validation', retryable: false });
+    expect(envelope.fields).toEqual([
+      { path: 'properties.Title', issue: 'missing', message: 'The Title field is required.' },
+      { path: 'properties.Count', issue: 'invalid', message: 'Must be a number' }
+    ]);
+    expect(envelope.suggestedTools?.[0]).toMatchObject({ tool: 'type-get-schema', arguments: { typeId: 'ArticlePage' } });
+  });
+
+  it('reports missing tool arguments from input validation', () => {
+    let error: unknown;
+    try {
+      validateInput(z.object({ contentId: z.string() }), {});
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(describeError(error).fields).toEqual([{ path: 'contentId', issue: 'missing', message: 'Required' }]);
+  });
+
+  it('tells missing content, auth failures and temporary failures apart', () => {
+    expect(describeError(new NotFoundError('Resource not found'))).toMatchObject({ category: 'not_found', retryable: false });
+    expect(describeError(new APIError('Forbidden', 403))).toMatchObject({ category: 'permission', retryable: false });
+    expect(describeError(new APIError('Unavailable', 503))).toMatchObject({ category: 'upstream', retryable: true });
+  });
+
+  it('only suggests retrying calls that do not write', () => {
+    const suggestRetry = (toolName: string, args: Record<string, unknown>) => runWithRequestContext(
+      { environment: 'dev', toolName, arguments: args, operationId: 'op' },
+      () => describeError(new APIError('Unavailable', 503)).suggestedTools?.find(tool => tool.tool === toolName)
+    );
+
+    expect(suggestRetry('content-get', { contentId: 'abc' })).toMatchObject({ arguments: { contentId: 'abc' } });
+    expect(suggestRetry('content-update', { contentId: 'abc' })).toBeUndefined();
+    expect(suggestRetry('graph-query', { query: 'x'.repeat(5000) })?.arguments).toBeUndefined();
+  });
+
+  it('returns the envelope next to the human-readable text', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = handleError(new NotFoundError('Resource not found'));
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as any).text).toContain('Error: Resource not found');
+    expect(JSON.parse((result.content[1] as any).text)).toEqual(result.structuredContent);
+    expect((result.structuredContent as any).error.code).toBe('NOT_FOUND');
+  });
+});
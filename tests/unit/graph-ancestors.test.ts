@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { executeGraphGetAncestors } from '../../src/logic/graph/search.js';
+import { GraphConfig } from '../../src/types/config.js';
+
+const config: GraphConfig = {
+  endpoint: 'https://test.optimizely.com/graphql',
+  auth: { method: 'single_key', singleKey: 'test-key' },
+  timeout: 30000,
+  maxRetries: 0
+};
+
+// article -> 2025 -> news -> folder (no URL) -> start
+const content = [
+  { key: 'article', displayName: 'Article', container: 'year', url: '/en/news/2025/article/' },
+  { key: 'year', displayName: '2025', container: 'news', url: '/en/news/2025/' },
+  { key: 'news', displayName: 'News', container: 'folder', url: '/en/news/' },
+  { key: 'folder', displayName: 'Folder', container: 'start', url: null },
+  { key: 'start', displayName: 'Start', container: null, url: '/en/' }
+].map(({ url, ...metadata }) => ({ ...metadata, locale: 'en', types: ['StandardPage'], url: { base: null, hierarchical: url } }));
+
+describe('graph-get-ancestors', () => {
+  let queries: any[];
+
+  beforeEach(() => {
+    queries = [];
+    global.fetch = vi.fn(async (_url: any, init?: RequestInit) => {
+      const { variables } = JSON.parse(String(init!.body));
+      queries.push(variables.where._metadata);
+      const { key, url } = variables.where._metadata;
+      const items = content.filter(metadata => key
+        ? metadata.key === key.eq
+        : url.hierarchical.in
+          ? url.hierarchical.in.includes(metadata.url.hierarchical)
+          : metadata.url.hierarchical === url.hierarchical.eq);
+      return new Response(JSON.stringify({ data: { _Content: { items: items.map(_metadata => ({ _metadata })) } } }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      });
+    }) as any;
+  });
+
+  const ancestors = async (params: Record<string, unknown>) =>
+    JSON.parse(((await executeGraphGetAncestors(config, params)).content[0] as any).text);
+
+  it('looks up ancestor URLs in one batch and walks the container chain', async () => {
+    const result = await ancestors({ path: '/en/news/2025/article/' });
+
+    expect(result.breadcrumb).toBe('Start > Folder > News > 2025 > Article');
+    expect(result.ancestors.map((ancestor: any) => [ancestor.key, ancestor.level]))
+      .toEqual([['start', 4], ['folder', 3], ['news', 2], ['year', 1]]);
+    expect(result.truncated).toBe(false);
+    // The item, the URL batch, and the folder the batch could not find by URL
+    expect(queries).toEqual([
+      { url: { hierarchical: { eq: '/en/news/2025/article/' } } },
+      { url: { hierarchical: { in: ['/en/news/2025/', '/en/news/', '/en/', '/'] } } },
+      { key: { eq: 'folder' } }
+    ]);
+  });
+
+  it('stops at the level limit and at containers missing from Graph', async () => {
+    const limited = await ancestors({ contentId: 'year_en_Published', levels: 1 });
+    expect(limited.ancestors.map((ancestor: any) => ancestor.key)).toEqual(['news']);
+    expect(limited.truncated).toBe(true);
+
+    content.splice(content.findIndex(metadata => metadata.key === 'folder'), 1);
+    // Another locale, so the folder is not served from the first test's cached lookup
+    const stopped = await ancestors({ contentId: 'article', locale: 'sv' });
+    expect(stopped.ancestors.map((ancestor: any) => ancestor.key)).toEqual(['news', 'year']);
+    expect(stopped).toMatchObject({ truncated: false, stoppedAt: { key: 'folder' } });
+  });
+});
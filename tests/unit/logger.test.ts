@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { configureLogger, getLogger, logAPIRequest, redact } from '../../src/utils/logger.js';
+import { runWithRequestContext } from '../../src/utils/request-context.js';
+
+function captureStderr() {
+  const lines: string[] = [];
+  vi.spyOn(process.stderr, 'write').mockImplementation((chunk: any) => {
+    lines.push(String(chunk));
+    return true;
+  });
+  return lines;
+}
+
+describe('logger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    configureLogger({ level: 'info', format: 'text' });
+  });
+
+  it('redacts credentials in headers and request bodies', () => {
+    expect(redact({ Authorization: 'Bearer abc', 'Content-Type': 'application/json' }))
+      .toEqual({ Authorization: '[REDACTED]', 'Content-Type': 'application/json' });
+    expect(redact(new Headers({ authorization: 'epi-single key' }))).toEqual({ authorization: '[REDACTED]' });
+    expect(redact(new URLSearchParams({ client_id: 'id', client_secret: 's3cret' })))
+      .toBe('client_id=id&client_secret=[REDACTED]');
+    expect(redact('{"client_id":"id","client_secret":"s3cret"}')).toBe('{"client_id":"id","client_secret":"[REDACTED]"}');
+  });
+
+  it('writes JSON lines carrying the tool call correlation ID', async () => {
+    configureLogger({ level: 'debug', format: 'json' });
+    const lines = captureStderr();
+
+    await runWithRequestContext({ operationId: 'op-1', toolName: 'content-get' }, async () => {
+      logAPIRequest('GET', 'https://api.example.com/content/1', { headers: { Authorization: 'Bearer abc' } });
+    });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({
+      level: 'debug',
+      message: 'API Request: GET https://api.example.com/content/1',
+      correlationId: 'op-1',
+      tool: 'content-get',
+      data: { headers: { Authorization: '[REDACTED]' } }
+    });
+  });
+
+  it('logs to stderr so stdout stays free for the MCP protocol', () => {
+    const stdout = vi.spyOn(process.stdout, 'write');
+    const lines = captureStderr();
+
+    getLogger().info('hello', { error: new Error('boom') });
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(lines[0]).toMatch(/\[INFO\] hello .*boom/s);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter, isQuotaExhausted, retryAfterSeconds } from '../../src/utils/rate-limiter.js';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues requests beyond the concurrency limit', async () => {
+    const limiter = new RateLimiter('test', { requestsPerSecond: 0, burst: 0, maxConcurrency: 2 });
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+
+    const all = Promise.all([1, 2, 3, 4, 5].map(() => limiter.run(task)));
+    expect(limiter.getStats()).toMatchObject({ active: 2, queued: 3 });
+    await all;
+
+    expect(peak).toBe(2);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0, throttled: 3 });
+  });
+
+  it('paces requests to the token rate after the burst is spent', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter('test', { requestsPerSecond: 2, burst: 2, maxConcurrency: 0 });
+    const started: number[] = [];
+    const all = Promise.all([1, 2, 3, 4].map(() => limiter.run(async () => { started.push(Date.now()); })));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await all;
+
+    expect(started[1] - started[0]).toBe(0);
+    expect(started[3] - started[0]).toBe(1000);
+  });
+
+  it('holds every request while paused by the server', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter('test', { requestsPerSecond: 0, burst: 0, maxConcurrency: 0 });
+    limiter.pause(3);
+    let done = false;
+    const request = limiter.run(async () => { done = true; });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    await request;
+    expect(done).toBe(true);
+  });
+
+  it('reads Retry-After and rate-limit headers', () => {
+    expect(retryAfterSeconds(new Headers({ 'Retry-After': '7' }))).toBe(7);
+    expect(retryAfterSeconds(new Headers({ 'Retry-After': new Date(Date.now() + 60_000).toUTCString() })))
+      .toBeGreaterThanOrEqual(59);
+    expect(retryAfterSeconds(new Headers({ 'X-RateLimit-Reset': '12' }))).toBe(12);
+    expect(retryAfterSeconds(new Headers())).toBeUndefined();
+    expect(isQuotaExhausted(new Headers({ 'X-RateLimit-Remaining': '0' }))).toBe(true);
+    expect(isQuotaExhausted(new Headers({ 'X-RateLimit-Remaining': '4' }))).toBe(false);
+  });
+});
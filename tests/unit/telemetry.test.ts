@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { metrics } from '@opentelemetry/api';
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader
+} from '@opentelemetry/sdk-metrics';
+import { recordCacheLookup, recordRetry, traceApiRequest, traceToolCall } from '../../src/utils/telemetry.js';
+import { NotFoundError } from '../../src/utils/errors.js';
+
+const spans = new InMemorySpanExporter();
+const metricReader = new PeriodicExportingMetricReader({
+  exporter: new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE),
+  exportIntervalMillis: 60_000
+});
+
+async function metricPoints(name: string) {
+  const { resourceMetrics } = await metricReader.collect();
+  const metric = resourceMetrics.scopeMetrics.flatMap(scope => scope.metrics)
+    .find(item => item.descriptor.name === name);
+  return metric?.dataPoints ?? [];
+}
+
+describe('telemetry', () => {
+  beforeAll(() => {
+    new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spans)] }).register();
+    metrics.setGlobalMeterProvider(new MeterProvider({ readers: [metricReader] }));
+  });
+
+  beforeEach(() => {
+    spans.reset();
+  });
+
+  it('nests API requests, retries and cache lookups under the tool call span', async () => {
+    await traceToolCall('content-get', {}, async () => {
+      recordCacheLookup('default', 'miss', 'graph:content:abc');
+      return traceApiRequest('cma', 'GET', {}, async () => {
+        recordRetry('cma', new Error('socket hang up'), 1, 500);
+        return { content: [] };
+      });
+    });
+
+    const [api, tool] = spans.getFinishedSpans();
+    expect(tool.name).toBe('tools/call content-get');
+    expect(api.name).toBe('CMA GET');
+    expect(api.parentSpanContext?.spanId).toBe(tool.spanContext().spanId);
+    expect(api.events.map(event => event.name)).toEqual(['retry']);
+    expect(tool.events.map(event => event.name)).toEqual(['cache.miss']);
+  });
+
+  it('records error codes from thrown errors and error results', async () => {
+    await expect(traceApiRequest('graph', 'GetContent', {}, async () => {
+      throw new NotFoundError('missing');
+    })).rejects.toThrow('missing');
+    await traceToolCall('content-update', {}, async () => ({
+      isError: true,
+      structuredContent: { error: { code: 'VALIDATION_ERROR', message: 'Title is required' } }
+    }));
+
+    const [api, tool] = spans.getFinishedSpans();
+    expect(api.attributes).toMatchObject({ 'error.type': 'NOT_FOUND', 'http.response.status_code': 404 });
+    expect(tool.attributes['error.type']).toBe('VALIDATION_ERROR');
+
+    const calls = await metricPoints('mcp.tool.calls');
+    expect(calls.find(point => point.attributes['mcp.tool.name'] === 'content-update')?.attributes)
+      .toMatchObject({ outcome: 'error', 'error.type': 'VALIDATION_ERROR' });
+  });
+});
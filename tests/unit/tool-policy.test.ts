@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getCallRestriction, getToolRestriction } from '../../src/utils/tool-policy.js';
+
+describe('tool policy', () => {
+  it('should allow everything by default', () => {
+    expect(getToolRestriction('content-delete', {})).toBeNull();
+    expect(getToolRestriction('graph-search', {})).toBeNull();
+  });
+
+  it('should hide mutating tools in safe mode', () => {
+    const options = { safeMode: true };
+
+    expect(getToolRestriction('content-delete', options)?.rule).toBe('safe-mode');
+    expect(getToolRestriction('workflow-transition', options)?.rule).toBe('safe-mode');
+    expect(getToolRestriction('content-get', options)).toBeNull();
+  });
+
+  it('should refuse only the writing steps of conditionally mutating tools', () => {
+    const options = { safeMode: true };
+
+    expect(getToolRestriction('content_creation_wizard', options)).toBeNull();
+    expect(getCallRestriction('content_creation_wizard', { step: 'find-parent' }, options)).toBeNull();
+    expect(getCallRestriction('content_creation_wizard', { step: 'create-content' }, options)?.rule).toBe('safe-mode');
+  });
+
+  it('should apply allow and deny lists with prefix patterns', () => {
+    const options = { toolAllowlist: ['graph-*', 'content-get'], toolDenylist: ['graph-query'] };
+
+    expect(getToolRestriction('graph-search', options)).toBeNull();
+    expect(getToolRestriction('content-get', options)).toBeNull();
+    expect(getToolRestriction('graph-query', options)?.rule).toBe('denylist');
+    expect(getToolRestriction('content-update', options)?.rule).toBe('allowlist');
+  });
+});
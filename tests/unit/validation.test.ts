@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolvePathWithin } from '../../src/utils/validation.js';
+
+describe('resolvePathWithin', () => {
+  it('resolves relative paths inside the root', async () => {
+    const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'files-')));
+    expect(await resolvePathWithin(root, 'images/logo.png')).toBe(path.join(root, 'images', 'logo.png'));
+    expect(await resolvePathWithin(root, path.join(root, 'a.json'))).toBe(path.join(root, 'a.json'));
+  });
+
+  it('rejects paths and symlinks that lead outside the root', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'files-'));
+    await fs.symlink(os.tmpdir(), path.join(root, 'escape'));
+
+    await expect(resolvePathWithin(root, '/etc/passwd')).rejects.toThrow('must be inside');
+    await expect(resolvePathWithin(root, '../.env')).rejects.toThrow();
+    await expect(resolvePathWithin(root, 'escape/secret.txt')).rejects.toThrow('must be inside');
+  });
+});